@@ -24,6 +24,17 @@ const PUBLIC_KEY_MULTIBASE_256 = "8024"
  */
 const PUBLIC_KEY_MULTIBASE_384 = "8124"
 
+/**
+ * The encoding of an ECDSA P-521 public key MUST start with the two-byte prefix `0x8224` (the varint expression of
+ * `0x1202`) followed by the 67-byte compressed public key data.
+ *
+ * The resulting 69-byte value MUST be encoded using the base-58-btc alphabet, and then prepended with the base-58-btc
+ * Multibase header `z`.
+ *
+ * @see https://github.com/multiformats/multicodec/blob/master/table.csv
+ */
+const PUBLIC_KEY_MULTIBASE_521 = "8224"
+
 /**
  * The encoding of an ECDSA P-256 private key MUST start with the two-byte prefix `0x8626` (the varint expression of
  * `0x1306`) followed by the 32-byte private key data.
@@ -46,6 +57,39 @@ const PRIVATE_KEY_MULTIBASE_256 = "8626"
  */
 const PRIVATE_KEY_MULTIBASE_384 = "8726"
 
+/**
+ * The encoding of an ECDSA P-521 private key MUST start with the two-byte prefix `0x8826` (the varint expression of
+ * `0x1308`) followed by the 66-byte private key data.
+ *
+ * The resulting 68-byte value MUST be encoded using the base-58-btc alphabet, and then prepended with the base-58-btc
+ * Multibase header `z`.
+ *
+ * @see https://github.com/multiformats/multicodec/blob/master/table.csv
+ */
+const PRIVATE_KEY_MULTIBASE_521 = "8826"
+
+/**
+ * The encoding of a secp256k1 public key MUST start with the two-byte prefix `0xe701` (the varint expression of `0xe7`)
+ * followed by the 33-byte compressed public key data.
+ *
+ * The resulting 35-byte value MUST be encoded using the base-58-btc alphabet, and then prepended with the base-58-btc
+ * Multibase header `z`.
+ *
+ * @see https://github.com/multiformats/multicodec/blob/master/table.csv
+ */
+const PUBLIC_KEY_MULTIBASE_SECP256K1 = "e701"
+
+/**
+ * The encoding of a secp256k1 private key MUST start with the two-byte prefix `0x8126` (the varint expression of
+ * `0x1301`) followed by the 32-byte private key data.
+ *
+ * The resulting 34-byte value MUST be encoded using the base-58-btc alphabet, and then prepended with the base-58-btc
+ * Multibase header `z`.
+ *
+ * @see https://github.com/multiformats/multicodec/blob/master/table.csv
+ */
+const PRIVATE_KEY_MULTIBASE_SECP256K1 = "8126"
+
 /**
  * The DER prefix for an ECDSA P-256 public key in SPKI format, which could be decomposed as follows:
  *
@@ -70,6 +114,18 @@ const PUBLIC_KEY_UNCOMPRESSED_256 = "3059301306072a8648ce3d020106082a8648ce3d030
  */
 const PUBLIC_KEY_UNCOMPRESSED_384 = "3076301006072a8648ce3d020106052b8104002203620004"
 
+/**
+ * The DER prefix for an ECDSA P-521 public key in SPKI format, which could be decomposed as follows:
+ *
+ * - `30819b`: `SEQUENCE` (155 bytes in total)
+ * - `3010`: `SEQUENCE` (16 bytes following)
+ * - `0607_2a8648ce3d0201`: `Object Identifier` (7 bytes, 1.2.840.10045.2.1, representing ANSI X9.62 ECDSA algorithm)
+ * - `0605_2b81040023`: `Object Identifier` (5 bytes, 1.3.132.0.35, representing P-521 curve)
+ * - `038186`: `BIT STRING` (134 bytes following, 132 bytes for the public key)
+ * - `0004`: `Unused bits` (4 bits)
+ */
+const PUBLIC_KEY_UNCOMPRESSED_521 = "30819b301006072a8648ce3d020106052b810400230381860004"
+
 /**
  * The DER prefix for an ECDSA P-256 compressed public key, which could be decomposed as follows:
  *
@@ -94,6 +150,18 @@ const PUBLIC_KEY_COMPRESSED_256 = "3039301306072a8648ce3d020106082a8648ce3d03010
  */
 const PUBLIC_KEY_COMPRESSED_384 = "3046301006072a8648ce3d020106052b81040022033200"
 
+/**
+ * The DER prefix for an ECDSA P-521 compressed public key, which could be decomposed as follows:
+ *
+ * - `3058`: `SEQUENCE` (88 bytes in total)
+ * - `3010`: `SEQUENCE` (16 bytes following)
+ * - `0607_2a8648ce3d0201`: `Object Identifier` (7 bytes, 1.2.840.10045.2.1, representing ANSI X9.62 ECDSA algorithm)
+ * - `0605_2b81040023`: `Object Identifier` (5 bytes, 1.3.132.0.35, representing P-521 curve)
+ * - `0344`: `BIT STRING` (68 bytes following, 67 bytes for the public key)
+ * - `00`: `Unused bits` (2 bits)
+ */
+const PUBLIC_KEY_COMPRESSED_521 = "3058301006072a8648ce3d020106052b81040023034400"
+
 /**
  * The DER prefix for an ECDSA P-256 private key in PKCS#8 format, which could be decomposed as follows:
  *
@@ -124,6 +192,21 @@ const PRIVATE_KEY_UNCOMPRESSED_256 = "308187020100301306072a8648ce3d020106082a86
  */
 const PRIVATE_KEY_UNCOMPRESSED_384 = "3081b6020100301006072a8648ce3d020106052b8104002204819e30819b0201010430"
 
+/**
+ * The DER prefix for an ECDSA P-521 private key in PKCS#8 format, which could be decomposed as follows:
+ *
+ * - `3081ee`: `SEQUENCE` (238 bytes in total)
+ * - `0201_00`: `INTEGER` (1 byte for version, with value 0x0)
+ * - `3010`: `SEQUENCE` (16 bytes following)
+ * - `0607_2a8648ce3d0201`: `Object Identifier` (7 bytes, 1.2.840.10045.2.1, representing ANSI X9.62 ECDSA algorithm)
+ * - `0605_2b81040023`: `Object Identifier` (5 bytes, 1.3.132.0.35, representing P-521 curve)
+ * - `0481d6`: `OCTET STRING` (214 bytes following)
+ * - `3081d3`: `SEQUENCE` (211 bytes following)
+ * - `0201_01`: `INTEGER` (1 byte for version, with value 0x1)
+ * - `0442`: `OCTET STRING` (66 bytes following, representing the private key)
+ */
+const PRIVATE_KEY_UNCOMPRESSED_521 = "3081ee020100301006072a8648ce3d020106052b810400230481d63081d30201010442"
+
 /**
  * The DER prefix for an ECDSA P-256 compressed private key, which could be decomposed as follows:
  *
@@ -154,12 +237,29 @@ const PRIVATE_KEY_COMPRESSED_256 = "3067020100301306072a8648ce3d020106082a8648ce
  */
 const PRIVATE_KEY_COMPRESSED_384 = "308184020100301006072a8648ce3d020106052b81040022046d306b0201010430"
 
+/**
+ * The DER prefix for an ECDSA P-521 compressed private key, which could be decomposed as follows:
+ *
+ * - `3060`: `SEQUENCE` (96 bytes in total)
+ * - `0201_00`: `INTEGER` (1 byte for version, with value 0x0)
+ * - `3010`: `SEQUENCE` (16 bytes following)
+ * - `0607_2a8648ce3d0201`: `Object Identifier` (7 bytes, 1.2.840.10045.2.1, representing ANSI X9.62 ECDSA algorithm)
+ * - `0605_2b81040023`: `Object Identifier` (5 bytes, 1.3.132.0.35, representing P-521 curve)
+ * - `0449`: `OCTET STRING` (73 bytes following)
+ * - `3047`: `SEQUENCE` (71 bytes following)
+ * - `0201_01`: `INTEGER` (1 byte for version, with value 0x1)
+ * - `0442`: `OCTET STRING` (66 bytes following, representing the private key)
+ */
+const PRIVATE_KEY_COMPRESSED_521 = "3060020100301006072a8648ce3d020106052b81040023044930470201010442"
+
 export const MULTIBASE: Map<Flag, Map<Curve, string>> = new Map([
   [
     "public",
     new Map([
       [Curve.P256, PUBLIC_KEY_MULTIBASE_256],
       [Curve.P384, PUBLIC_KEY_MULTIBASE_384],
+      [Curve.P521, PUBLIC_KEY_MULTIBASE_521],
+      [Curve.SECP256K1, PUBLIC_KEY_MULTIBASE_SECP256K1],
     ]),
   ],
   [
@@ -167,6 +267,8 @@ export const MULTIBASE: Map<Flag, Map<Curve, string>> = new Map([
     new Map([
       [Curve.P256, PRIVATE_KEY_MULTIBASE_256],
       [Curve.P384, PRIVATE_KEY_MULTIBASE_384],
+      [Curve.P521, PRIVATE_KEY_MULTIBASE_521],
+      [Curve.SECP256K1, PRIVATE_KEY_MULTIBASE_SECP256K1],
     ]),
   ],
 ])
@@ -177,6 +279,7 @@ export const DER_COMPRESSED: Map<Flag, Map<Curve, string>> = new Map([
     new Map([
       [Curve.P256, PUBLIC_KEY_COMPRESSED_256],
       [Curve.P384, PUBLIC_KEY_COMPRESSED_384],
+      [Curve.P521, PUBLIC_KEY_COMPRESSED_521],
     ]),
   ],
   [
@@ -184,6 +287,7 @@ export const DER_COMPRESSED: Map<Flag, Map<Curve, string>> = new Map([
     new Map([
       [Curve.P256, PRIVATE_KEY_COMPRESSED_256],
       [Curve.P384, PRIVATE_KEY_COMPRESSED_384],
+      [Curve.P521, PRIVATE_KEY_COMPRESSED_521],
     ]),
   ],
 ])
@@ -194,6 +298,7 @@ export const DER_UNCOMPRESSED: Map<Flag, Map<Curve, string>> = new Map([
     new Map([
       [Curve.P256, PUBLIC_KEY_UNCOMPRESSED_256],
       [Curve.P384, PUBLIC_KEY_UNCOMPRESSED_384],
+      [Curve.P521, PUBLIC_KEY_UNCOMPRESSED_521],
     ]),
   ],
   [
@@ -201,10 +306,47 @@ export const DER_UNCOMPRESSED: Map<Flag, Map<Curve, string>> = new Map([
     new Map([
       [Curve.P256, PRIVATE_KEY_UNCOMPRESSED_256],
       [Curve.P384, PRIVATE_KEY_UNCOMPRESSED_384],
+      [Curve.P521, PRIVATE_KEY_UNCOMPRESSED_521],
     ]),
   ],
 ])
 
+/**
+ * The DER encoded value of object identifier 1.2.840.10045.2.1, representing ANSI X9.62 ECDSA algorithm, which is
+ * presented in the `AlgorithmIdentifier` of SPKI and PKCS#8 structures.
+ */
+export const OID_EC_PUBLIC_KEY = "2a8648ce3d0201"
+
+/**
+ * The DER encoded values of the named curve object identifiers:
+ *
+ * - `2a8648ce3d030107`: 1.2.840.10045.3.1.7, representing P-256 curve
+ * - `2b81040022`: 1.3.132.0.34, representing P-384 curve
+ * - `2b81040023`: 1.3.132.0.35, representing P-521 curve
+ */
+export const OID_CURVE: Map<Curve, string> = new Map([
+  [Curve.P256, "2a8648ce3d030107"],
+  [Curve.P384, "2b81040022"],
+  [Curve.P521, "2b81040023"],
+])
+
+/**
+ * The DER encoded values of the object identifiers used by a password-based encrypted PKCS#8 private key:
+ *
+ * - `2a864886f70d01050d`: 1.2.840.113549.1.5.13, representing PBES2
+ * - `2a864886f70d01050c`: 1.2.840.113549.1.5.12, representing PBKDF2
+ * - `2a864886f70d0209`: 1.2.840.113549.2.9, representing HMAC with SHA-256
+ * - `60864801650304012e`: 2.16.840.1.101.3.4.1.46, representing AES-256 in GCM mode
+ * - `60864801650304012a`: 2.16.840.1.101.3.4.1.42, representing AES-256 in CBC mode
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc8018
+ */
+export const OID_PBES2 = "2a864886f70d01050d"
+export const OID_PBKDF2 = "2a864886f70d01050c"
+export const OID_HMAC_SHA256 = "2a864886f70d0209"
+export const OID_AES256_GCM = "60864801650304012e"
+export const OID_AES256_CBC = "60864801650304012a"
+
 /**
  * The ECDSA-SD base proof header.
  */
@@ -215,6 +357,68 @@ export const CBOR_BASE = "d95d00"
  */
 export const CBOR_DERIVED = "d95d01"
 
+/**
+ * The COSE algorithm identifiers of ECDSA over each curve, with the hash algorithm appropriate to the curve:
+ *
+ * - `-7`: ES256, ECDSA using P-256 and SHA-256
+ * - `-35`: ES384, ECDSA using P-384 and SHA-384
+ * - `-36`: ES512, ECDSA using P-521 and SHA-512
+ * - `-47`: ES256K, ECDSA using secp256k1 and SHA-256
+ *
+ * @see https://www.iana.org/assignments/cose/cose.xhtml#algorithms
+ */
+export const COSE_ALGORITHM: Map<Curve, number> = new Map([
+  [Curve.P256, -7],
+  [Curve.P384, -35],
+  [Curve.P521, -36],
+  [Curve.SECP256K1, -47],
+])
+
+/**
+ * The COSE elliptic curve identifiers of the `EC2` key type.
+ *
+ * @see https://www.iana.org/assignments/cose/cose.xhtml#elliptic-curves
+ */
+export const COSE_CURVE: Map<Curve, number> = new Map([
+  [Curve.P256, 1],
+  [Curve.P384, 2],
+  [Curve.P521, 3],
+  [Curve.SECP256K1, 8],
+])
+
+/**
+ * The labels of the COSE header parameters, i.e., `alg`, `content type`, `kid` and `typ`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9052#section-3.1
+ * @see https://www.rfc-editor.org/rfc/rfc9596
+ */
+export const COSE_HEADER_ALG = 1
+export const COSE_HEADER_CRIT = 2
+export const COSE_HEADER_CONTENT_TYPE = 3
+export const COSE_HEADER_KID = 4
+export const COSE_HEADER_TYP = 16
+
+/**
+ * The labels of the COSE key parameters, i.e., `kty`, `kid` and `alg`, and the `crv`, `x`, `y` and `d` parameters of
+ * the `EC2` key type, whose value is `2`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9052#section-7.1
+ * @see https://www.rfc-editor.org/rfc/rfc9053#section-7.1.1
+ */
+export const COSE_KEY_KTY = 1
+export const COSE_KEY_KID = 2
+export const COSE_KEY_ALG = 3
+export const COSE_KEY_CRV = -1
+export const COSE_KEY_X = -2
+export const COSE_KEY_Y = -3
+export const COSE_KEY_D = -4
+export const COSE_KTY_EC2 = 2
+
+/**
+ * The CBOR tag of a `COSE_Sign1` structure.
+ */
+export const COSE_SIGN1_TAG = 18
+
 /**
  * The prefix of a blank node identifier.
  */
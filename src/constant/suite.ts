@@ -8,25 +8,93 @@ export const ALGORITHM = "ECDSA"
 
 export const KEYPAIR_DOCUMENT_TYPE_MULTI = "Multikey"
 export const KEYPAIR_DOCUMENT_TYPE_JWK = "JsonWebKey"
+export const KEYPAIR_DOCUMENT_TYPE_LEGACY = "EcdsaSecp256r1VerificationKey2019"
+
+export const DID_KEY_PREFIX = "did:key:"
+export const DID_JWK_PREFIX = "did:jwk:"
+export const DID_JWK_FRAGMENT = "0"
+
+export const PEM_LABEL_PUBLIC = "PUBLIC KEY"
+export const PEM_LABEL_PRIVATE = "PRIVATE KEY"
+export const PEM_LABEL_SEC1 = "EC PRIVATE KEY"
+export const PEM_LABEL_PARAMETERS = "EC PARAMETERS"
+export const PEM_LABEL_ENCRYPTED = "ENCRYPTED PRIVATE KEY"
+
+export const JWE_ALGORITHM = "PBES2-HS256+A128KW"
+export const JWE_ENCRYPTION = "A256GCM"
+export const JWE_CONTENT_TYPE = "jwk+json"
+
+export const PBKDF2_ITERATIONS = 600000
+export const PBKDF2_MAX_ITERATIONS = 5000000
+export const PBKDF2_SALT_LENGTH = 16
 
 export const GENERAL_PROOF_TYPE = "DataIntegrityProof"
 export const SUITE_RDFC = "ecdsa-rdfc-2019"
 export const SUITE_JCS = "ecdsa-jcs-2019"
 export const SUITE_SD = "ecdsa-sd-2023"
 
+export const LEGACY_PROOF_TYPE = "EcdsaSecp256r1Signature2019"
+export const LEGACY_JWS_HEADER = { alg: "ES256", b64: false, crit: ["b64"] }
+
+export const JOSE_CREDENTIAL_TYPE = "vc+jwt"
+export const JOSE_PRESENTATION_TYPE = "vp+jwt"
+export const COSE_CREDENTIAL_TYPE = "application/vc+cose"
+export const COSE_PRESENTATION_TYPE = "application/vp+cose"
+export const COSE_CREDENTIAL_CONTENT_TYPE = "application/vc"
+export const COSE_PRESENTATION_CONTENT_TYPE = "application/vp"
+export const COSE_SIGNATURE_CONTEXT = "Signature1"
+
+export const CREDENTIAL_PROOF_PURPOSE = "assertionMethod"
+export const PRESENTATION_PROOF_PURPOSE = "authentication"
+export const VERIFICATION_RELATIONSHIPS = [
+  "assertionMethod",
+  "authentication",
+  "capabilityInvocation",
+  "capabilityDelegation",
+  "keyAgreement",
+]
+export const PRESENTATION_TYPE = "VerifiablePresentation"
+export const DEFAULT_CLOCK_SKEW = 5 * 60 * 1000
+
+export const LOADER_CACHE_SIZE = 100
+export const LOADER_CACHE_TTL = 60 * 60 * 1000
+
+export const SIGNATURE_ALGORITHM: Map<Curve, string> = new Map([
+  [Curve.P256, "ES256"],
+  [Curve.P384, "ES384"],
+  [Curve.P521, "ES512"],
+  [Curve.SECP256K1, "ES256K"],
+])
+
+/**
+ * The curves that are not supported by the Web Crypto API, whose keys are generated, imported and used for signing and
+ * verification through the constant-time implementation of `@noble/curves` instead.
+ */
+export const SOFTWARE_CURVES: Set<Curve> = new Set([Curve.SECP256K1])
+
 export const KEY_FORMAT: Map<Flag, "pkcs8" | "spki"> = new Map([
   ["public", "spki"],
   ["private", "pkcs8"],
 ])
 
 export const KEY_UNCOMPRESSED_LENGTH: Map<Flag, Map<Curve, number>> = new Map([
-  ["public", new Map([[Curve.P256, 64], [Curve.P384, 96]])],
-  ["private", new Map([[Curve.P256, 32], [Curve.P384, 48]])],
+  ["public", new Map([[Curve.P256, 64], [Curve.P384, 96], [Curve.P521, 132], [Curve.SECP256K1, 64]])],
+  ["private", new Map([[Curve.P256, 32], [Curve.P384, 48], [Curve.P521, 66], [Curve.SECP256K1, 32]])],
 ])
 
 export const KEY_COMPRESSED_LENGTH: Map<Flag, Map<Curve, number>> = new Map([
-  ["public", new Map([[Curve.P256, 33], [Curve.P384, 49]])],
-  ["private", new Map([[Curve.P256, 32], [Curve.P384, 48]])],
+  ["public", new Map([[Curve.P256, 33], [Curve.P384, 49], [Curve.P521, 67], [Curve.SECP256K1, 33]])],
+  ["private", new Map([[Curve.P256, 32], [Curve.P384, 48], [Curve.P521, 66], [Curve.SECP256K1, 32]])],
 ])
 
-export const KEY_MATERIAL_FOOTER_LENGTH = 6
+export const SEED_MIN_LENGTH = 32
+export const SEED_DERIVATION_SALT = "ECKeypair::fromSeed"
+export const SECRET_DERIVATION_SALT = "keypair/subtle#deriveSecret"
+export const HMAC_KEY_DERIVATION_INFO = "ecdsa-sd-2023 hmac key"
+export const PROOF_SCOPED_KEY_DERIVATION_INFO = "ecdsa-sd-2023 proof-scoped key"
+
+export const KEY_MATERIAL_FOOTER_LENGTH: Map<Curve, number> = new Map([
+  [Curve.P256, 6],
+  [Curve.P384, 6],
+  [Curve.P521, 8],
+])
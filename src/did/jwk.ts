@@ -0,0 +1,131 @@
+import {
+  type CIDDocument,
+  document,
+  ImplementationError,
+  ImplementationErrorCode,
+  type JWKEC,
+  type LoadDocumentCallback,
+  loader,
+  type URI,
+  type VerificationMethodJwk,
+} from "@herculas/vc-data-integrity"
+
+import { ECKeypair } from "../key/keypair.ts"
+import { decodeBase64url, encodeBase64url } from "../utils/base64url.ts"
+
+import * as core from "../key/core.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * Create a `did:jwk` identifier from the public key of an elliptic curve keypair. Only the `kty`, `crv`, `x` and `y`
+ * members of the public key JWK are encoded, so that the identifier does not depend on optional metadata of the key.
+ *
+ * The verification method of the resulting DID is identified by `<did>#0`.
+ *
+ * @param {ECKeypair} keypair An elliptic curve keypair instance.
+ *
+ * @returns {Promise<URI>} Resolve to the `did:jwk` identifier.
+ *
+ * @see https://github.com/quartzjer/did-jwk/blob/main/spec.md
+ */
+export async function createDidJwk(keypair: ECKeypair): Promise<URI> {
+  if (!keypair.publicKey) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "did/jwk#createDidJwk",
+      "Public key has not been generated!",
+    )
+  }
+
+  const { crv, kty, x, y } = await core.keyToJwk(keypair.publicKey, "public")
+  const encoded = new TextEncoder().encode(JSON.stringify({ crv, kty, x, y }))
+  return `${SUITE_CONSTANT.DID_JWK_PREFIX}${encodeBase64url(encoded)}`
+}
+
+/**
+ * Resolve a `did:jwk` identifier into a controlled identifier document. The method-specific identifier is the
+ * base64url encoded public key JWK, from which a single `JsonWebKey` verification method is synthesized and bound to
+ * the `assertionMethod`, `authentication`, `capabilityInvocation` and `capabilityDelegation` relationships. A DID URL
+ * with a fragment is resolved into the document of its DID.
+ *
+ * @param {URI} did A `did:jwk` identifier or DID URL.
+ *
+ * @returns {Promise<CIDDocument>} Resolve to the controlled identifier document.
+ *
+ * @see https://github.com/quartzjer/did-jwk/blob/main/spec.md
+ */
+export async function resolveDidJwk(did: URI): Promise<CIDDocument> {
+  const identifier = did.split("#")[0]
+  if (!identifier.startsWith(SUITE_CONSTANT.DID_JWK_PREFIX)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "did/jwk#resolveDidJwk",
+      `The identifier ${did} is not a well-formed did:jwk!`,
+    )
+  }
+
+  let jwk: JWKEC
+  try {
+    const encoded = identifier.slice(SUITE_CONSTANT.DID_JWK_PREFIX.length)
+    jwk = JSON.parse(new TextDecoder().decode(decodeBase64url(encoded)))
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "did/jwk#resolveDidJwk",
+      `The identifier ${did} does not encode a JSON Web Key: ${error}`,
+    )
+  }
+
+  // a did:jwk MUST NOT disclose the private key
+  if (jwk.d) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "did/jwk#resolveDidJwk",
+      `The identifier ${did} contains private key material!`,
+    )
+  }
+
+  const method: VerificationMethodJwk = {
+    id: `${identifier}#${SUITE_CONSTANT.DID_JWK_FRAGMENT}`,
+    type: SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_JWK,
+    controller: identifier,
+    publicKeyJwk: jwk,
+  }
+
+  // the JWK MUST be a valid public key on one of the supported curves
+  try {
+    await ECKeypair.import(method)
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "did/jwk#resolveDidJwk",
+      `The identifier ${did} does not encode a supported public key: ${error}`,
+    )
+  }
+
+  return document.encapsulateVerificationMethod(
+    method,
+    undefined,
+    new Set(["assertionMethod", "authentication", "capabilityInvocation", "capabilityDelegation"]),
+  )
+}
+
+/**
+ * Wrap a document loader so that `did:jwk` identifiers are resolved locally without any network access, while all
+ * other URLs are passed to the wrapped loader.
+ *
+ * @param {LoadDocumentCallback} [fallback] The loader for non-`did:jwk` URLs, default to the basic loader.
+ *
+ * @returns {LoadDocumentCallback} The wrapped document loader.
+ */
+export function didJwkLoader(fallback: LoadDocumentCallback = loader.basic): LoadDocumentCallback {
+  return async (url: URI) => {
+    if (!url.startsWith(SUITE_CONSTANT.DID_JWK_PREFIX)) {
+      return await fallback(url)
+    }
+    return {
+      documentUrl: url,
+      document: await resolveDidJwk(url),
+    }
+  }
+}
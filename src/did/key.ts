@@ -0,0 +1,82 @@
+import {
+  type CIDDocument,
+  document,
+  ImplementationError,
+  ImplementationErrorCode,
+  type LoadDocumentCallback,
+  loader,
+  type URI,
+  type VerificationMethodMultibase,
+} from "@herculas/vc-data-integrity"
+
+import { ECKeypair } from "../key/keypair.ts"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * Resolve a `did:key` identifier into a controlled identifier document. The fingerprint of the identifier is the
+ * multibase encoded public key, from which a single `Multikey` verification method is synthesized and bound to the
+ * `assertionMethod`, `authentication`, `capabilityInvocation` and `capabilityDelegation` relationships. A DID URL with
+ * a fragment is resolved into the document of its DID.
+ *
+ * @param {URI} did A `did:key` identifier or DID URL.
+ *
+ * @returns {Promise<CIDDocument>} Resolve to the controlled identifier document.
+ *
+ * @see https://w3c-ccg.github.io/did-key-spec/
+ */
+export async function resolveDidKey(did: URI): Promise<CIDDocument> {
+  const identifier = did.split("#")[0]
+  const fingerprint = identifier.slice(SUITE_CONSTANT.DID_KEY_PREFIX.length)
+  if (!identifier.startsWith(SUITE_CONSTANT.DID_KEY_PREFIX) || !fingerprint.startsWith("z")) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "did/key#resolveDidKey",
+      `The identifier ${did} is not a well-formed did:key!`,
+    )
+  }
+
+  const method: VerificationMethodMultibase = {
+    id: `${identifier}#${fingerprint}`,
+    type: SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_MULTI,
+    controller: identifier,
+    publicKeyMultibase: fingerprint,
+  }
+
+  // the fingerprint MUST be a valid public key on one of the supported curves
+  try {
+    await ECKeypair.import(method)
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "did/key#resolveDidKey",
+      `The identifier ${did} does not encode a supported public key: ${error}`,
+    )
+  }
+
+  return document.encapsulateVerificationMethod(
+    method,
+    undefined,
+    new Set(["assertionMethod", "authentication", "capabilityInvocation", "capabilityDelegation"]),
+  )
+}
+
+/**
+ * Wrap a document loader so that `did:key` identifiers are resolved locally without any network access, while all
+ * other URLs are passed to the wrapped loader.
+ *
+ * @param {LoadDocumentCallback} [fallback] The loader for non-`did:key` URLs, default to the basic loader.
+ *
+ * @returns {LoadDocumentCallback} The wrapped document loader.
+ */
+export function didKeyLoader(fallback: LoadDocumentCallback = loader.basic): LoadDocumentCallback {
+  return async (url: URI) => {
+    if (!url.startsWith(SUITE_CONSTANT.DID_KEY_PREFIX)) {
+      return await fallback(url)
+    }
+    return {
+      documentUrl: url,
+      document: await resolveDidKey(url),
+    }
+  }
+}
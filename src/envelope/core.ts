@@ -0,0 +1,55 @@
+import type { Credential, Proof, URI } from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * Express the key binding of an enveloping signature as a proof, so that its verification method is retrieved,
+ * authorized and checked for validity in the same way as that of an embedded proof. The verification method of a
+ * credential is bound for `assertionMethod`, and that of a presentation for `authentication`.
+ *
+ * @param {string} type The media type of the envelope.
+ * @param {URI} verificationMethod The identifier of the verification method.
+ * @param {boolean} presentation Whether the secured document is a presentation.
+ *
+ * @returns {Proof} The proof describing the key binding.
+ */
+export function envelopeProof(type: string, verificationMethod: URI, presentation: boolean): Proof {
+  return {
+    type,
+    verificationMethod,
+    proofPurpose: presentation ? SUITE_CONSTANT.PRESENTATION_PROOF_PURPOSE : SUITE_CONSTANT.CREDENTIAL_PROOF_PURPOSE,
+  }
+}
+
+/**
+ * Determine whether a document is a verifiable presentation.
+ *
+ * @param {Credential} document A verifiable credential or presentation.
+ *
+ * @returns {boolean} `true` if the document is typed as a `VerifiablePresentation`.
+ */
+export function isPresentation(document: Credential): boolean {
+  const type = document.type
+  return Array.isArray(type)
+    ? type.includes(SUITE_CONSTANT.PRESENTATION_TYPE)
+    : type === SUITE_CONSTANT.PRESENTATION_TYPE
+}
+
+/**
+ * Determine the curve of a signature algorithm, given the algorithm identifiers of each curve.
+ *
+ * @param {Map<Curve, T>} algorithms The algorithm identifier of each curve, e.g., its JOSE name or COSE number.
+ * @param {T} algorithm The algorithm identifier to look up.
+ *
+ * @returns {Curve | undefined} The elliptic curve of the algorithm, or `undefined` if it is not supported.
+ */
+export function algorithmToCurve<T>(algorithms: Map<Curve, T>, algorithm: T): Curve | undefined {
+  for (const [curve, identifier] of algorithms) {
+    if (identifier === algorithm) {
+      return curve
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,255 @@
+import {
+  type Credential,
+  type JsonLdDocument,
+  type LoadDocumentCallback,
+  ProcessingError,
+  ProcessingErrorCode,
+  type URI,
+} from "@herculas/vc-data-integrity"
+import * as cbor from "cbor2"
+
+import type { Curve } from "../constant/curve.ts"
+import type { Signer } from "../key/signer.ts"
+import { algorithmToCurve, envelopeProof, isPresentation } from "./core.ts"
+import { type CheckedVerification, conclude, runCheck, type VerificationCheck } from "../suite/result.ts"
+import type { ProofValidity } from "../suite/validity.ts"
+
+import * as core from "../suite/core.ts"
+import * as subtle from "../key/subtle.ts"
+import * as PREFIX_CONSTANT from "../constant/prefix.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * The decoded components of a `COSE_Sign1` structure.
+ */
+type CoseSign1 = {
+  protectedHeader: Uint8Array
+  algorithm: number
+  kid: URI
+  type: string
+  payload: Uint8Array
+  signature: Uint8Array
+}
+
+/**
+ * Secure a verifiable credential or presentation as a `COSE_Sign1` structure, whose payload is the JSON serialization
+ * of the document. The protected header carries the COSE algorithm of the key, i.e., `ES256` or `ES384`, the
+ * verification method identifier as `kid`, the type `application/vc+cose`, or `application/vp+cose` if the document is
+ * a `VerifiablePresentation`, and the content type `application/vc` or `application/vp`.
+ *
+ * @param {JsonLdDocument} unsecuredDocument An unsecured verifiable credential or presentation.
+ * @param {object} options The `verificationMethod` to sign with, whose private key is retrieved through the document
+ * loader unless a `signer` is provided. If `deterministic` is set, the signature nonce is derived as specified in
+ * RFC 6979.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the tagged `COSE_Sign1` structure.
+ *
+ * @see https://www.w3.org/TR/vc-jose-cose/#securing-with-cose
+ * @see https://www.rfc-editor.org/rfc/rfc9052#section-4.2
+ */
+export async function signCose(
+  unsecuredDocument: JsonLdDocument,
+  options: {
+    verificationMethod: URI
+    documentLoader: LoadDocumentCallback
+    curve?: Curve
+    signer?: Signer
+    deterministic?: boolean
+  },
+): Promise<Uint8Array> {
+  const presentation = isPresentation(unsecuredDocument as Credential)
+  const type = presentation ? SUITE_CONSTANT.COSE_PRESENTATION_TYPE : SUITE_CONSTANT.COSE_CREDENTIAL_TYPE
+  const proof = envelopeProof(type, options.verificationMethod, presentation)
+  const curve = await core.resolveCurve({ ...options, proof })
+
+  const protectedHeader = cbor.encode(
+    new Map<number, unknown>([
+      [PREFIX_CONSTANT.COSE_HEADER_ALG, PREFIX_CONSTANT.COSE_ALGORITHM.get(curve)!],
+      [
+        PREFIX_CONSTANT.COSE_HEADER_CONTENT_TYPE,
+        presentation ? SUITE_CONSTANT.COSE_PRESENTATION_CONTENT_TYPE : SUITE_CONSTANT.COSE_CREDENTIAL_CONTENT_TYPE,
+      ],
+      [PREFIX_CONSTANT.COSE_HEADER_KID, new TextEncoder().encode(options.verificationMethod)],
+      [PREFIX_CONSTANT.COSE_HEADER_TYP, type],
+    ]),
+  )
+  const payload = new TextEncoder().encode(JSON.stringify(unsecuredDocument))
+
+  const toBeSigned = _sigStructure(protectedHeader, payload)
+  const signature = await core.signData(toBeSigned, { ...options, proof, curve }, "envelope/cose#signCose")
+  return cbor.encode(new cbor.Tag(PREFIX_CONSTANT.COSE_SIGN1_TAG, [protectedHeader, new Map(), payload, signature]))
+}
+
+/**
+ * Verify a verifiable credential or presentation secured as a `COSE_Sign1` structure by `signCose`. The key is resolved
+ * from the `kid` header through the document loader, and MUST be authorized by its controller for the `assertionMethod`
+ * relationship of a credential, or the `authentication` relationship of a presentation.
+ *
+ * Failures are reported in the result rather than thrown. The `envelope` check covers the decoding of the structure and
+ * its protected header, the `verificationMethod` check the resolution of the key, and the `signature` check the
+ * signature itself.
+ *
+ * @param {Uint8Array} secured The `COSE_Sign1` structure to verify, either tagged or untagged.
+ * @param {object} options A set of options to use when verifying the structure. If `expectedType` is set, the `typ`
+ * header MUST match it. The key MUST NOT have expired or been revoked at the time read from `clock`.
+ *
+ * @returns {Promise<CheckedVerification>} Resolve to a verification result, along with the outcome of each check. The
+ * verified document is the payload of the structure.
+ *
+ * @see https://www.w3.org/TR/vc-jose-cose/#securing-with-cose
+ */
+export async function verifyCose(
+  secured: Uint8Array,
+  options: {
+    documentLoader: LoadDocumentCallback
+    expectedType?: string
+  } & ProofValidity,
+): Promise<CheckedVerification> {
+  const from = "envelope/cose#verifyCose"
+  const checks: Array<VerificationCheck> = []
+
+  const envelope = await runCheck(
+    checks,
+    "envelope",
+    ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+    from,
+    () => _decodeCose(secured, options.expectedType, from),
+  )
+  if (!envelope) {
+    return conclude(checks)
+  }
+
+  const { sign1, document } = envelope
+  const presentation = sign1.type === SUITE_CONSTANT.COSE_PRESENTATION_TYPE
+  const proof = envelopeProof(sign1.type, sign1.kid, presentation)
+  const curve = algorithmToCurve(PREFIX_CONSTANT.COSE_ALGORITHM, sign1.algorithm)!
+  const key = await runCheck(
+    checks,
+    "verificationMethod",
+    ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+    from,
+    () => core.resolveVerificationKey(proof, { ...options, curve }, from),
+  )
+  if (!key) {
+    return conclude(checks)
+  }
+
+  await runCheck(
+    checks,
+    "signature",
+    ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+    from,
+    () => subtle.verify(key.publicKey, sign1.signature, _sigStructure(sign1.protectedHeader, sign1.payload)),
+  )
+
+  return conclude(checks, document)
+}
+
+/**
+ * Build the `Sig_structure` to be signed for a `COSE_Sign1` structure, without external additional authenticated data.
+ *
+ * @param {Uint8Array} protectedHeader The serialized protected header.
+ * @param {Uint8Array} payload The payload.
+ *
+ * @returns {Uint8Array} The CBOR encoded `Sig_structure`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9052#section-4.4
+ */
+function _sigStructure(protectedHeader: Uint8Array, payload: Uint8Array): Uint8Array {
+  return cbor.encode([SUITE_CONSTANT.COSE_SIGNATURE_CONTEXT, protectedHeader, new Uint8Array(), payload])
+}
+
+/**
+ * Decode a `COSE_Sign1` structure, and check that its protected header declares a supported algorithm, a `kid`, and a
+ * `typ` that matches both the expected type and the payload. A protected header that is not a byte string, an
+ * unprotected header that is not a map, and a protected header with a `crit` parameter are rejected as malformed.
+ *
+ * @param {Uint8Array} secured The `COSE_Sign1` structure, either tagged or untagged.
+ * @param {string} [expectedType] The expected `typ` header, if any.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {object} The decoded structure, along with the document in its payload.
+ */
+function _decodeCose(
+  secured: Uint8Array,
+  expectedType: string | undefined,
+  from: string,
+): { sign1: CoseSign1; document: Credential } {
+  let components: unknown
+  let header: unknown
+  try {
+    components = cbor.decode(secured, { preferMap: true })
+    if (components instanceof cbor.Tag && components.tag === PREFIX_CONSTANT.COSE_SIGN1_TAG) {
+      components = components.contents
+    }
+    header = Array.isArray(components) && components[0] instanceof Uint8Array
+      ? cbor.decode(components[0], { preferMap: true })
+      : undefined
+  } catch {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The COSE_Sign1 could not be decoded.")
+  }
+
+  if (
+    !Array.isArray(components) || components.length !== 4 || !(header instanceof Map) ||
+    !(components[1] instanceof Map) || !(components[2] instanceof Uint8Array) || !(components[3] instanceof Uint8Array)
+  ) {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The COSE_Sign1 is malformed.")
+  }
+
+  // none of the header parameters understood here is an extension that could be marked as critical
+  if (header.has(PREFIX_CONSTANT.COSE_HEADER_CRIT)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      "The COSE_Sign1 protected header lists critical parameters, which are not supported.",
+    )
+  }
+
+  const algorithm = header.get(PREFIX_CONSTANT.COSE_HEADER_ALG)
+  if (!algorithmToCurve(PREFIX_CONSTANT.COSE_ALGORITHM, algorithm)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      `The COSE algorithm ${algorithm} is not supported.`,
+    )
+  }
+  const kid = header.get(PREFIX_CONSTANT.COSE_HEADER_KID)
+  if (!(kid instanceof Uint8Array)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      "The COSE_Sign1 protected header does not contain a kid.",
+    )
+  }
+
+  let document: Credential
+  try {
+    document = JSON.parse(new TextDecoder().decode(components[2]))
+  } catch {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The payload is not a JSON document.")
+  }
+
+  const type = header.get(PREFIX_CONSTANT.COSE_HEADER_TYP)
+  const payloadType = isPresentation(document)
+    ? SUITE_CONSTANT.COSE_PRESENTATION_TYPE
+    : SUITE_CONSTANT.COSE_CREDENTIAL_TYPE
+  if (type !== payloadType || (expectedType !== undefined && type !== expectedType)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      `The COSE type ${type} does not match the ${expectedType ?? payloadType} payload.`,
+    )
+  }
+
+  return {
+    sign1: {
+      protectedHeader: components[0],
+      algorithm,
+      kid: new TextDecoder().decode(kid),
+      type,
+      payload: components[2],
+      signature: components[3],
+    },
+    document,
+  }
+}
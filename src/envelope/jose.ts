@@ -0,0 +1,200 @@
+import {
+  type Credential,
+  type JsonLdDocument,
+  type LoadDocumentCallback,
+  ProcessingError,
+  ProcessingErrorCode,
+  type URI,
+} from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+import { decodeBase64url, encodeBase64url } from "../utils/base64url.ts"
+import type { Signer } from "../key/signer.ts"
+import { algorithmToCurve, envelopeProof, isPresentation } from "./core.ts"
+import { type CheckedVerification, conclude, runCheck, type VerificationCheck } from "../suite/result.ts"
+import type { ProofValidity } from "../suite/validity.ts"
+
+import * as core from "../suite/core.ts"
+import * as subtle from "../key/subtle.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * The protected header of a credential or presentation secured with JOSE.
+ */
+type JoseHeader = {
+  alg: string
+  kid: URI
+  typ: string
+  [parameter: string]: unknown
+}
+
+/**
+ * Secure a verifiable credential or presentation as a compact JSON Web Signature, whose payload is the document
+ * itself. The protected header carries the `ES256`, `ES384`, `ES512` or `ES256K` algorithm of the key, the verification
+ * method identifier as `kid`, and the media type `vc+jwt`, or `vp+jwt` if the document is a `VerifiablePresentation`.
+ *
+ * @param {JsonLdDocument} unsecuredDocument An unsecured verifiable credential or presentation.
+ * @param {object} options The `verificationMethod` to sign with, whose private key is retrieved through the document
+ * loader unless a `signer` is provided. If `deterministic` is set, the signature nonce is derived as specified in
+ * RFC 6979.
+ *
+ * @returns {Promise<string>} Resolve to the compact JWS.
+ *
+ * @see https://www.w3.org/TR/vc-jose-cose/#securing-with-jose
+ */
+export async function signJose(
+  unsecuredDocument: JsonLdDocument,
+  options: {
+    verificationMethod: URI
+    documentLoader: LoadDocumentCallback
+    curve?: Curve
+    signer?: Signer
+    deterministic?: boolean
+  },
+): Promise<string> {
+  const presentation = isPresentation(unsecuredDocument as Credential)
+  const type = presentation ? SUITE_CONSTANT.JOSE_PRESENTATION_TYPE : SUITE_CONSTANT.JOSE_CREDENTIAL_TYPE
+  const proof = envelopeProof(type, options.verificationMethod, presentation)
+  const curve = await core.resolveCurve({ ...options, proof })
+
+  const header: JoseHeader = {
+    alg: SUITE_CONSTANT.SIGNATURE_ALGORITHM.get(curve)!,
+    kid: options.verificationMethod,
+    typ: type,
+  }
+  const encodedHeader = encodeBase64url(new TextEncoder().encode(JSON.stringify(header)))
+  const encodedPayload = encodeBase64url(new TextEncoder().encode(JSON.stringify(unsecuredDocument)))
+
+  const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+  const signature = await core.signData(signingInput, { ...options, proof, curve }, "envelope/jose#signJose")
+  return `${encodedHeader}.${encodedPayload}.${encodeBase64url(signature)}`
+}
+
+/**
+ * Verify a verifiable credential or presentation secured as a compact JSON Web Signature by `signJose`. The key is
+ * resolved from the `kid` header through the document loader, and MUST be authorized by its controller for the
+ * `assertionMethod` relationship of a credential, or the `authentication` relationship of a presentation.
+ *
+ * Failures are reported in the result rather than thrown. The `envelope` check covers the decoding of the JWS and its
+ * header, the `verificationMethod` check the resolution of the key, and the `signature` check the signature itself.
+ *
+ * @param {string} jws The compact JWS to verify.
+ * @param {object} options A set of options to use when verifying the JWS. If `expectedType` is set, the `typ` header
+ * MUST match it. The key MUST NOT have expired or been revoked at the time read from `clock`.
+ *
+ * @returns {Promise<CheckedVerification>} Resolve to a verification result, along with the outcome of each check. The
+ * verified document is the payload of the JWS.
+ *
+ * @see https://www.w3.org/TR/vc-jose-cose/#securing-with-jose
+ */
+export async function verifyJose(
+  jws: string,
+  options: {
+    documentLoader: LoadDocumentCallback
+    expectedType?: string
+  } & ProofValidity,
+): Promise<CheckedVerification> {
+  const from = "envelope/jose#verifyJose"
+  const checks: Array<VerificationCheck> = []
+
+  const envelope = await runCheck(
+    checks,
+    "envelope",
+    ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+    from,
+    () => _decodeJose(jws, options.expectedType, from),
+  )
+  if (!envelope) {
+    return conclude(checks)
+  }
+
+  const { header, payload, signingInput, signature } = envelope
+  const proof = envelopeProof(header.typ, header.kid, header.typ === SUITE_CONSTANT.JOSE_PRESENTATION_TYPE)
+  const curve = algorithmToCurve(SUITE_CONSTANT.SIGNATURE_ALGORITHM, header.alg)!
+  const key = await runCheck(
+    checks,
+    "verificationMethod",
+    ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+    from,
+    () => core.resolveVerificationKey(proof, { ...options, curve }, from),
+  )
+  if (!key) {
+    return conclude(checks)
+  }
+
+  await runCheck(
+    checks,
+    "signature",
+    ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+    from,
+    () => subtle.verify(key.publicKey, signature, signingInput),
+  )
+
+  return conclude(checks, payload)
+}
+
+/**
+ * Decode a compact JWS, and check that its protected header declares a supported algorithm, a `kid`, and a `typ` that
+ * matches both the expected type and the payload.
+ *
+ * @param {string} jws The compact JWS to decode.
+ * @param {string} [expectedType] The expected `typ` header, if any.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {object} The decoded header and payload, along with the signing input and the signature.
+ */
+function _decodeJose(
+  jws: string,
+  expectedType: string | undefined,
+  from: string,
+): { header: JoseHeader; payload: Credential; signingInput: Uint8Array; signature: Uint8Array } {
+  const parts = jws.split(".")
+  if (parts.length !== 3 || parts.some((part) => part.length === 0)) {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The JWS is not in compact form.")
+  }
+
+  let header: JoseHeader
+  let payload: Credential
+  let signature: Uint8Array
+  try {
+    header = JSON.parse(new TextDecoder().decode(decodeBase64url(parts[0])))
+    payload = JSON.parse(new TextDecoder().decode(decodeBase64url(parts[1])))
+    signature = decodeBase64url(parts[2])
+  } catch {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The JWS could not be decoded.")
+  }
+
+  if (header.crit !== undefined || header.b64 !== undefined) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      "The JWS header contains critical parameters that are not supported.",
+    )
+  }
+  if (!algorithmToCurve(SUITE_CONSTANT.SIGNATURE_ALGORITHM, header.alg)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      `The signature algorithm ${header.alg} is not supported.`,
+    )
+  }
+  if (typeof header.kid !== "string") {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The JWS header does not contain a kid.")
+  }
+
+  const type = isPresentation(payload) ? SUITE_CONSTANT.JOSE_PRESENTATION_TYPE : SUITE_CONSTANT.JOSE_CREDENTIAL_TYPE
+  if (header.typ !== type || (expectedType !== undefined && header.typ !== expectedType)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      `The JWS type ${header.typ} does not match the ${expectedType ?? type} payload.`,
+    )
+  }
+
+  return {
+    header,
+    payload,
+    signingInput: new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+    signature,
+  }
+}
@@ -10,44 +10,111 @@ import {
   type VerificationMethodMultibase,
 } from "@herculas/vc-data-integrity"
 
-import { Curve } from "../constant/curve.ts"
+import { Curve, CURVE_PARAMETER } from "../constant/curve.ts"
+import { decodeBase64url, encodeBase64url } from "../utils/base64url.ts"
+import { curveToDigestAlgorithm } from "../utils/crypto.ts"
 import { ECKeypair } from "./keypair.ts"
 
+import * as subtle from "./subtle.ts"
 import * as PREFIX_CONSTANT from "../constant/prefix.ts"
 import * as SUITE_CONSTANT from "../constant/suite.ts"
+import * as ec from "../utils/ec.ts"
 
 /**
- * Generate an ECDSA keypair using the Web Crypto API.
+ * Generate an ECDSA keypair using the Web Crypto API, or `@noble/curves` for curves not supported by the Web Crypto
+ * API.
  *
  * @param {Curve} curve The curve to use for the keypair.
  *
  * @returns {Promise<CryptoKeyPair>} Resolve to an ECDSA keypair.
  */
 export async function generateRawKeypair(curve: Curve): Promise<CryptoKeyPair> {
-  return await crypto.subtle.generateKey(
-    { name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve },
-    true,
-    ["sign", "verify"],
+  return await subtle.generateKeypair(curve)
+}
+
+/**
+ * Derive an ECDSA private key material from a seed, using HKDF with the digest algorithm of the curve. The derived
+ * octets are interpreted as a big-endian integer, and rejected unless the integer lies in `[1, n - 1]` where `n` is the
+ * order of the curve, in which case a counter octet appended to `info` is increased and the derivation is repeated.
+ *
+ * @param {Uint8Array} seed The seed material, at least 32 octets long.
+ * @param {Curve} curve The curve to use for the keypair.
+ * @param {string} [info] The context information, which could be used to derive independent keys from a single seed.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the private key material.
+ */
+export async function seedToMaterial(seed: Uint8Array, curve: Curve, info: string = ""): Promise<Uint8Array> {
+  const materialLength = SUITE_CONSTANT.KEY_COMPRESSED_LENGTH.get("private")?.get(curve)
+  const order = CURVE_PARAMETER.get(curve)?.n
+  if (!materialLength || !order) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "keypair/core#seedToMaterial",
+      `This suite does not support ${curve} curve private key!`,
+    )
+  }
+
+  if (seed.length < SUITE_CONSTANT.SEED_MIN_LENGTH) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_LENGTH,
+      "keypair/core#seedToMaterial",
+      `The seed should be at least ${SUITE_CONSTANT.SEED_MIN_LENGTH} octets long!`,
+    )
+  }
+
+  // the excess high bits are cleared, so that a candidate is accepted with a probability of at least 1/2
+  const excessBits = materialLength * 8 - order.toString(2).length
+  const mask = 0xff >> excessBits
+
+  const baseKey = await crypto.subtle.importKey("raw", seed, "HKDF", false, ["deriveBits"])
+  const salt = new TextEncoder().encode(SUITE_CONSTANT.SEED_DERIVATION_SALT)
+  const infoPrefix = new TextEncoder().encode(info)
+
+  for (let counter = 0; counter < 256; counter++) {
+    const params = {
+      name: "HKDF",
+      hash: curveToDigestAlgorithm(curve),
+      salt,
+      info: format.concatenate(infoPrefix, new Uint8Array([counter])),
+    }
+    const candidate = new Uint8Array(await crypto.subtle.deriveBits(params, baseKey, materialLength * 8))
+    candidate[0] &= mask
+
+    const scalar = BigInt(`0x${format.bytesToHex(candidate)}`)
+    if (scalar > 0n && scalar < order) {
+      return candidate
+    }
+  }
+
+  throw new ImplementationError(
+    ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+    "keypair/core#seedToMaterial",
+    "Failed to derive a valid private key from the seed!",
   )
 }
 
 /**
- * Calculate the thumbprint of a `JWK` instance using SHA-256 hash algorithm.
+ * Calculate the RFC 7638 thumbprint of a `JWK` instance using SHA-256 hash algorithm. Only the required members `crv`,
+ * `kty`, `x` and `y` are hashed, in lexicographic order and without whitespace, so that optional members such as
+ * `kid`, `alg` and `use` do not affect the result.
  *
  * @param {JWK} jwk A JSON Web Key.
  *
- * @returns {Promise<string>} Resolve to the thumbprint of the `JWK` instance.
+ * @returns {Promise<string>} Resolve to the base64url encoded thumbprint of the `JWK` instance, without padding.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7638
  */
 export async function getJwkThumbprint(jwk: JWK): Promise<string> {
-  const data = new TextEncoder().encode(JSON.stringify(jwk))
+  const { crv, kty, x, y } = jwk as JWKEC
+  const data = new TextEncoder().encode(JSON.stringify({ crv, kty, x, y }))
   const hash = await crypto.subtle.digest("SHA-256", data)
-  return multi.base64url.encode(new Uint8Array(hash))
+  return encodeBase64url(new Uint8Array(hash))
 }
 
 /**
  * Export a `CryptoKey` instance to a verification method document. The key is stored in the exported document in either
- * `JsonWebKey` or `Multikey` format, specified by the `type` field in the document. The `JsonWebKey` or `Multikey` 
- * generated from the above process will ultimately be wrapped into a verification method document, along with other 
+ * `JsonWebKey` or `Multikey` format, specified by the `type` field in the document. The `JsonWebKey` or `Multikey`
+ * generated from the above process will ultimately be wrapped into a verification method document, along with other
  * metadata associated with that key, such as the controller, identifier, and expiration date.
  *
  * The flowchart below briefly illustrates this export process:
@@ -85,13 +152,22 @@ export async function keyToMaterial(
     )
   }
 
+  // keys on curves not supported by the Web Crypto API could not be exported in DER format
+  if (subtle.isSoftwareKey(key)) {
+    const { x, y, d } = await subtle.exportJwk(key)
+    return flag === "private" ? decodeBase64url(d!) : format.concatenate(decodeBase64url(x!), decodeBase64url(y!))
+  }
+
   const keyFormat = SUITE_CONSTANT.KEY_FORMAT.get(flag)
   const derPrefixHex = PREFIX_CONSTANT.DER_UNCOMPRESSED.get(flag)?.get(curve)
   const materialLength = SUITE_CONSTANT.KEY_UNCOMPRESSED_LENGTH.get(flag)?.get(curve)
   const publicMaterialLength = SUITE_CONSTANT.KEY_UNCOMPRESSED_LENGTH.get("public")?.get(curve)!
   const privateMaterialLength = SUITE_CONSTANT.KEY_UNCOMPRESSED_LENGTH.get("private")?.get(curve)!
+  const footerLength = SUITE_CONSTANT.KEY_MATERIAL_FOOTER_LENGTH.get(curve)!
 
-  if (!keyFormat || !derPrefixHex || !materialLength || !publicMaterialLength || !privateMaterialLength) {
+  if (
+    !keyFormat || !derPrefixHex || !materialLength || !publicMaterialLength || !privateMaterialLength || !footerLength
+  ) {
     throw new ImplementationError(
       ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
       "keypair/core#keyToMaterial",
@@ -113,7 +189,7 @@ export async function keyToMaterial(
   }
 
   const expectedFullLength = derPrefix.length + publicMaterialLength +
-    (flag === "private" ? privateMaterialLength + SUITE_CONSTANT.KEY_MATERIAL_FOOTER_LENGTH : 0)
+    (flag === "private" ? privateMaterialLength + footerLength : 0)
   if (derMaterial.length !== expectedFullLength) {
     throw new ImplementationError(
       ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
@@ -163,11 +239,8 @@ export function materialToMultibase(
   if (flag === "private") {
     compressedMaterial = material
   } else if (flag === "public") {
-    const x = material.slice(0, materialLength / 2)
-    const y = material.slice(materialLength / 2)
-    const even = y[y.length - 1] % 2 === 0
-    const prefix = even ? new Uint8Array([0x02]) : new Uint8Array([0x03])
-    compressedMaterial = format.concatenate(prefix, x)
+    const point = ec.decodePoint(format.concatenate(new Uint8Array([0x04]), material), curve)
+    compressedMaterial = ec.encodePoint(point, curve)
   } else {
     throw new ImplementationError(
       ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
@@ -182,16 +255,20 @@ export function materialToMultibase(
 }
 
 /**
- * Export an ECDSA keypair instance into a verification method containing a keypair in multibase format.
+ * Export an ECDSA keypair instance into a verification method containing a keypair in multibase format. The `id` of
+ * the document is taken from the keypair, unless `thumbprint` is set, in which case the fragment is replaced by the
+ * JWK thumbprint of the public key.
  *
  * @param {ECKeypair} keypair An ECDSA keypair instance.
  * @param {Flag} flag The flag to determine if the key is private or public.
+ * @param {boolean} [thumbprint] Whether to use the JWK thumbprint as the key identifier fragment.
  *
  * @returns {Promise<VerificationMethodMultibase>} Resolve to a verification method containing a multibase key.
  */
 export async function keypairToMultibase(
   keypair: ECKeypair,
   flag: Flag,
+  thumbprint: boolean = false,
 ): Promise<VerificationMethodMultibase> {
   // check the controller and identifier
   if (!keypair.controller || !keypair.id) {
@@ -235,6 +312,9 @@ export async function keypairToMultibase(
   if (keypair.publicKey) {
     const material = await keyToMaterial(keypair.publicKey, "public", keypair.curve)
     document.publicKeyMultibase = materialToMultibase(material, "public", keypair.curve)
+    if (thumbprint) {
+      document.id = `${keypair.controller}#${await getJwkThumbprint(await keyToJwk(keypair.publicKey, "public"))}`
+    }
   } else if (flag === "public") {
     throw new ImplementationError(
       ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
@@ -256,13 +336,13 @@ export async function keypairToMultibase(
  * @returns {Promise<JWKEC>} Resolve to an object representing a JSON Web Key.
  */
 export async function keyToJwk(key: CryptoKey, flag: Flag): Promise<JWKEC> {
-  const jwk = await crypto.subtle.exportKey("jwk", key)
+  const jwk = await subtle.exportJwk(key)
 
   return {
     kty: jwk.kty || SUITE_CONSTANT.JWK_TYPE,
     use: jwk.use || SUITE_CONSTANT.JWK_USE,
     key_ops: jwk.key_ops,
-    alg: jwk.alg!,
+    alg: jwk.alg ?? SUITE_CONSTANT.SIGNATURE_ALGORITHM.get(jwk.crv as Curve)!,
     ext: jwk.ext || true,
     crv: jwk.crv!,
     x: jwk.x!,
@@ -272,7 +352,8 @@ export async function keyToJwk(key: CryptoKey, flag: Flag): Promise<JWKEC> {
 }
 
 /**
- * Export an ECDSA keypair instance into a verification method containing a keypair in `JWK` format.
+ * Export an ECDSA keypair instance into a verification method containing a keypair in `JWK` format. The fragment of
+ * the `id` is the JWK thumbprint of the public key, which is also set as the `kid` of the exported JWK objects.
  *
  * @param {ECKeypair} keypair An ECDSA keypair instance.
  * @param {Flag} flag The flag to determine if the key is private or public.
@@ -323,7 +404,12 @@ export async function keypairToJwk(
 
   if (keypair.publicKey) {
     document.publicKeyJwk = await keyToJwk(keypair.publicKey, "public")
-    document.id = `${keypair.controller}#${await getJwkThumbprint(document.publicKeyJwk)}`
+    const kid = await getJwkThumbprint(document.publicKeyJwk)
+    document.publicKeyJwk.kid = kid
+    if (document.secretKeyJwk) {
+      document.secretKeyJwk.kid = kid
+    }
+    document.id = `${keypair.controller}#${kid}`
   } else if (flag === "public") {
     throw new ImplementationError(
       ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
@@ -351,10 +437,11 @@ export async function keypairToJwk(
  */
 
 /**
- * Import an elliptic curve keypair from a verification method document containing a keypair in multibase format.
+ * Import an elliptic curve keypair from a verification method document containing a keypair in multibase format. The
+ * curve is detected from the multicodec prefix of the key materials, and checked against the specified curve if any.
  *
  * @param {VerificationMethodMultibase} verificationMethod A verification method fetched from an external source.
- * @param {Curve} curve The curve to use for the keypair.
+ * @param {Curve} [curve] The expected curve of the keypair.
  * @param {Date} [expires] The expiration date of the keypair.
  * @param {Date} [revoked] The revocation date of the keypair.
  *
@@ -362,36 +449,78 @@ export async function keypairToJwk(
  */
 export async function multibaseToKeypair(
   verificationMethod: VerificationMethodMultibase,
-  curve: Curve,
+  curve?: Curve,
   expires?: Date,
   revoked?: Date,
 ): Promise<ECKeypair> {
-  const keypair = new ECKeypair(curve, verificationMethod.id, verificationMethod.controller, expires, revoked)
+  // both the private and public keys are missing
+  if (!verificationMethod.secretKeyMultibase && !verificationMethod.publicKeyMultibase) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "keypair/core#multibaseToKeypair",
+      "Both public and private key materials are missing from the verification method!",
+    )
+  }
+
+  // detect the curve from the multicodec prefixes
+  const detectedCurves: Array<Curve> = []
+  if (verificationMethod.secretKeyMultibase) {
+    detectedCurves.push(multibaseToCurve(verificationMethod.secretKeyMultibase, "private"))
+  }
+  if (verificationMethod.publicKeyMultibase) {
+    detectedCurves.push(multibaseToCurve(verificationMethod.publicKeyMultibase, "public"))
+  }
+  const realCurve = reconcileCurve(detectedCurves, curve, "keypair/core#multibaseToKeypair")
+  const keypair = new ECKeypair(realCurve, verificationMethod.id, verificationMethod.controller, expires, revoked)
 
   // import the private key if it is presented
   if (verificationMethod.secretKeyMultibase) {
-    const material = multibaseToMaterial(verificationMethod.secretKeyMultibase, "private", curve)
-    keypair.privateKey = await materialToPrivateKey(material, curve)
+    const material = multibaseToMaterial(verificationMethod.secretKeyMultibase, "private", realCurve)
+    keypair.privateKey = await materialToPrivateKey(material, realCurve)
   }
 
-  // import the public key if it is presented
+  // import the public key if it is presented, otherwise recover it from the private key
   if (verificationMethod.publicKeyMultibase) {
-    const material = multibaseToMaterial(verificationMethod.publicKeyMultibase, "public", curve)
-    keypair.publicKey = await materialToPublicKey(material, curve)
+    const material = multibaseToMaterial(verificationMethod.publicKeyMultibase, "public", realCurve)
+    keypair.publicKey = await materialToPublicKey(material, realCurve)
+  } else {
+    keypair.publicKey = await privateKeyToPublicKey(keypair.privateKey!)
   }
 
-  // both the private and public keys are missing
-  if (!verificationMethod.secretKeyMultibase && !verificationMethod.publicKeyMultibase) {
-    throw new ImplementationError(
-      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
-      "keypair/core#multibaseToKeypair",
-      "Both public and private key materials are missing from the verification method!",
-    )
+  // the public key MUST correspond to the private key if both are presented
+  if (verificationMethod.secretKeyMultibase && verificationMethod.publicKeyMultibase) {
+    await checkKeypair(keypair.privateKey!, keypair.publicKey, "keypair/core#multibaseToKeypair")
   }
 
   return keypair
 }
 
+/**
+ * Detect the elliptic curve of a multibase encoded private or public key from its multicodec prefix.
+ *
+ * @param {string} multibase A multibase encoded private or public key material.
+ * @param {Flag} flag The flag to determine if the key is private or public.
+ *
+ * @returns {Curve} The curve indicated by the multicodec prefix.
+ */
+export function multibaseToCurve(multibase: string, flag: Flag): Curve {
+  const multibaseMaterial = multi.base58btc.decode(multibase)
+  const prefixes = PREFIX_CONSTANT.MULTIBASE.get(flag) ?? new Map<Curve, string>()
+
+  for (const [curve, multibasePrefixHex] of prefixes) {
+    const multibasePrefix = format.hexToBytes(multibasePrefixHex)
+    if (multibasePrefix.every((byte, index) => multibaseMaterial[index] === byte)) {
+      return curve
+    }
+  }
+
+  throw new ImplementationError(
+    ImplementationErrorCode.DECODING_ERROR,
+    "keypair/core#multibaseToCurve",
+    `The provided ${flag} key multibase does not start with a supported multicodec prefix!`,
+  )
+}
+
 /**
  * Decode a multibase encoded private or public key into an `Uint8Array` key material, and check the key material
  * against the multibase prefix according to the specification.
@@ -465,24 +594,25 @@ export async function materialToPrivateKey(
     )
   }
 
-  // construct a JWK using the private key material
+  if (material.length !== materialLength) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_LENGTH,
+      "keypair/core#materialToKey",
+      `The ${curve} curve ${flag} key material should be a ${materialLength}-octet array!`,
+    )
+  }
+
+  // construct a JWK using the private key material, along with the public point recovered from it
   const prepare = {
     kty: SUITE_CONSTANT.JWK_TYPE,
     crv: curve,
     key_ops: usage,
     ext: true,
-    x: "",
-    y: "",
-    d: multi.base64url.encode(material),
+    ..._materialToCoordinates(material, curve),
+    d: encodeBase64url(material),
   }
 
-  return await crypto.subtle.importKey(
-    "jwk",
-    prepare,
-    { name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve },
-    true,
-    usage,
-  )
+  return await subtle.importJwk(prepare, usage)
 }
 
 /**
@@ -499,11 +629,9 @@ export async function materialToPublicKey(
   curve: Curve,
 ): Promise<CryptoKey> {
   const flag: Flag = "public"
-  const keyFormat = SUITE_CONSTANT.KEY_FORMAT.get(flag)
   const materialLength = SUITE_CONSTANT.KEY_COMPRESSED_LENGTH.get(flag)?.get(curve)
-  const derPrefixHex = PREFIX_CONSTANT.DER_COMPRESSED.get(flag)?.get(curve)
 
-  if (!keyFormat || !materialLength || !derPrefixHex) {
+  if (!materialLength) {
     throw new ImplementationError(
       ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
       "keypair/core#materialToKey",
@@ -519,33 +647,90 @@ export async function materialToPublicKey(
     )
   }
 
-  const derPrefix = format.hexToBytes(derPrefixHex)
-  const derMaterial = format.concatenate(derPrefix, material)
-  const usage: KeyUsage[] = ["verify"]
-
-  const firstImport = await crypto.subtle.importKey(
-    keyFormat,
-    derMaterial,
-    { name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve },
-    true,
-    usage,
-  )
-  const firstExport = await crypto.subtle.exportKey("jwk", firstImport)
-  const secondImport = await crypto.subtle.importKey(
-    "jwk",
-    firstExport,
-    { name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve },
-    true,
-    usage,
-  )
-  return secondImport
+  return await rawPointToPublicKey(material, curve)
 }
 
 /**
- * Import an elliptic curve keypair from a verification method document containing a keypair in `JWK` format.
+ * Export an ECDSA public key into an octet string encoded as specified in SEC 1, i.e., a `0x04` octet followed by the
+ * `x` and `y` coordinates, or a `0x02` or `0x03` octet followed by the `x` coordinate in compressed form.
  *
- * @param {VerificationMethodJwk} verificationMethod A verification method fetched from an external source.
+ * @param {CryptoKey} publicKey An ECDSA public key in `CryptoKey` format.
+ * @param {boolean} [compressed] Whether to export the point in compressed form, default to `false`.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the encoded point.
+ */
+export async function publicKeyToRawPoint(publicKey: CryptoKey, compressed: boolean = false): Promise<Uint8Array> {
+  const { crv, x, y } = await subtle.exportJwk(publicKey)
+  const point = { x: ec.bytesToBigInt(decodeBase64url(x!)), y: ec.bytesToBigInt(decodeBase64url(y!)) }
+  return ec.encodePoint(point, crv as Curve, compressed)
+}
+
+/**
+ * Import an ECDSA public key from an octet string encoded as specified in SEC 1, in either compressed or uncompressed
+ * form. A compressed point is decompressed in this library rather than by the runtime, since not every runtime accepts
+ * compressed points, and the point is validated to lie on the curve.
+ *
+ * @param {Uint8Array} point The encoded point.
  * @param {Curve} curve The curve to use for the keypair.
+ *
+ * @returns {Promise<CryptoKey>} Resolve to the ECDSA public key in `CryptoKey` format.
+ */
+export async function rawPointToPublicKey(point: Uint8Array, curve: Curve): Promise<CryptoKey> {
+  const decoded = ec.decodePoint(point, curve)
+  const length = ec.fieldLength(curve)
+  const prepare = {
+    kty: SUITE_CONSTANT.JWK_TYPE,
+    crv: curve,
+    x: encodeBase64url(ec.bigIntToBytes(decoded.x, length)),
+    y: encodeBase64url(ec.bigIntToBytes(decoded.y, length)),
+  }
+
+  return await subtle.importJwk(prepare, ["verify"])
+}
+
+/**
+ * Recover the ECDSA public key corresponding to a private key. The public point is calculated from the private scalar
+ * rather than taken from the exported key, since a private key imported without its public part does not necessarily
+ * carry one on every platform.
+ *
+ * @param {CryptoKey} privateKey An ECDSA private key in `CryptoKey` format.
+ *
+ * @returns {Promise<CryptoKey>} Resolve to the corresponding ECDSA public key in `CryptoKey` format.
+ */
+export async function privateKeyToPublicKey(privateKey: CryptoKey): Promise<CryptoKey> {
+  const { kty, crv, d } = await subtle.exportJwk(privateKey)
+  const curve = jwkToCurve({ kty, crv, d } as JWKEC)
+  return await subtle.importJwk({ kty, crv, ..._materialToCoordinates(decodeBase64url(d!), curve) }, ["verify"])
+}
+
+/**
+ * Check that a public key actually corresponds to a private key, that is, the public point equals the product of the
+ * private scalar and the base point of the curve.
+ *
+ * @param {CryptoKey} privateKey An ECDSA private key in `CryptoKey` format.
+ * @param {CryptoKey} publicKey An ECDSA public key in `CryptoKey` format.
+ * @param {string} from The name of the calling function, used in error messages.
+ */
+export async function checkKeypair(privateKey: CryptoKey, publicKey: CryptoKey, from: string) {
+  const { crv, d } = await subtle.exportJwk(privateKey)
+  const { x, y } = await subtle.exportJwk(publicKey)
+  const expected = _materialToCoordinates(decodeBase64url(d!), crv as Curve)
+
+  if (expected.x !== x || expected.y !== y) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      from,
+      "The public key does not match the private key!",
+    )
+  }
+}
+
+/**
+ * Import an elliptic curve keypair from a verification method document containing a keypair in `JWK` format. The curve
+ * is detected from the `crv` field of the JWK objects, and checked against the specified curve if any.
+ *
+ * @param {VerificationMethodJwk} verificationMethod A verification method fetched from an external source.
+ * @param {Curve} [curve] The expected curve of the keypair.
  * @param {Date} expires The expiration date of the keypair.
  * @param {Date} revoked The revocation date of the keypair.
  *
@@ -553,11 +738,29 @@ export async function materialToPublicKey(
  */
 export async function jwkToKeypair(
   verificationMethod: VerificationMethodJwk,
-  curve: Curve,
+  curve?: Curve,
   expires?: Date,
   revoked?: Date,
 ): Promise<ECKeypair> {
-  const keypair = new ECKeypair(curve, verificationMethod.id, verificationMethod.controller, expires, revoked)
+  // both the private and public keys are missing
+  if (!verificationMethod.secretKeyJwk && !verificationMethod.publicKeyJwk) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "keypair/core#jwkToKeypair",
+      "Both public and private key JWKs are missing from the verification method!",
+    )
+  }
+
+  // detect the curve from the `crv` fields
+  const detectedCurves: Array<Curve> = []
+  if (verificationMethod.secretKeyJwk) {
+    detectedCurves.push(jwkToCurve(verificationMethod.secretKeyJwk as JWKEC))
+  }
+  if (verificationMethod.publicKeyJwk) {
+    detectedCurves.push(jwkToCurve(verificationMethod.publicKeyJwk as JWKEC))
+  }
+  const realCurve = reconcileCurve(detectedCurves, curve, "keypair/core#jwkToKeypair")
+  const keypair = new ECKeypair(realCurve, verificationMethod.id, verificationMethod.controller, expires, revoked)
 
   const innerImport = async (jwk: JWK, flag: Flag, inCurve: Curve) => {
     let convertedJwk: JWKEC
@@ -584,26 +787,59 @@ export async function jwkToKeypair(
     return recoveredKey
   }
 
-  // import the private key if it is presented
+  // import the private key if it is presented, with the public point recovered from the private scalar, so that a JWK
+  // containing `d` only could be imported, and a JWK with mismatched `x` and `y` is rejected
   if (verificationMethod.secretKeyJwk) {
-    keypair.privateKey = await innerImport(verificationMethod.secretKeyJwk, "private", curve)
+    const secretKeyJwk = verificationMethod.secretKeyJwk as JWKEC
+    if (!secretKeyJwk.d) {
+      throw new ImplementationError(
+        ImplementationErrorCode.DECODING_ERROR,
+        "keypair/core#jwkToKeypair",
+        "The private key material is missing from the JWK object!",
+      )
+    }
+    const coordinates = _materialToCoordinates(decodeBase64url(secretKeyJwk.d), realCurve)
+    if ((secretKeyJwk.x && secretKeyJwk.x !== coordinates.x) || (secretKeyJwk.y && secretKeyJwk.y !== coordinates.y)) {
+      throw new ImplementationError(
+        ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+        "keypair/core#jwkToKeypair",
+        "The public key does not match the private key!",
+      )
+    }
+    keypair.privateKey = await innerImport({ ...secretKeyJwk, ...coordinates }, "private", realCurve)
   }
 
-  // import the public key if it is presented
+  // import the public key if it is presented, otherwise recover it from the private key
   if (verificationMethod.publicKeyJwk) {
-    keypair.publicKey = await innerImport(verificationMethod.publicKeyJwk, "public", curve)
+    keypair.publicKey = await innerImport(verificationMethod.publicKeyJwk, "public", realCurve)
+  } else {
+    keypair.publicKey = await privateKeyToPublicKey(keypair.privateKey!)
   }
 
-  // both the private and public keys are missing
-  if (!verificationMethod.secretKeyJwk && !verificationMethod.publicKeyJwk) {
+  // the public key MUST correspond to the private key if both are presented
+  if (verificationMethod.secretKeyJwk && verificationMethod.publicKeyJwk) {
+    await checkKeypair(keypair.privateKey!, keypair.publicKey, "keypair/core#jwkToKeypair")
+  }
+
+  return keypair
+}
+
+/**
+ * Detect the elliptic curve of a `JWKEC` key object from its `crv` field.
+ *
+ * @param {JWKEC} jwk An object representing a JSON Web Key.
+ *
+ * @returns {Curve} The curve indicated by the `crv` field.
+ */
+export function jwkToCurve(jwk: JWKEC): Curve {
+  if (!Object.values(Curve).includes(jwk.crv as Curve)) {
     throw new ImplementationError(
       ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
-      "keypair/core#jwkToKeypair",
-      "Both public and private key JWKs are missing from the verification method!",
+      "keypair/core#jwkToCurve",
+      `The 'crv' field ${jwk.crv} of the JWK object is not supported!`,
     )
   }
-
-  return keypair
+  return jwk.crv as Curve
 }
 
 /**
@@ -654,11 +890,53 @@ export async function jwkToKey(jwk: JWKEC, flag: Flag): Promise<CryptoKey> {
     d: secret,
   }
 
-  return await crypto.subtle.importKey(
-    "jwk",
-    prepare,
-    { name: SUITE_CONSTANT.ALGORITHM, namedCurve: jwk.crv },
-    true,
-    keyUsage as KeyUsage[],
-  )
+  return await subtle.importJwk(prepare, keyUsage)
+}
+
+/**
+ * Reconcile the curves detected from the key materials of a verification method with the curve specified by the
+ * caller. All detected curves MUST agree with each other, and with the specified curve if it is presented.
+ *
+ * @param {Array<Curve>} detectedCurves The curves detected from the key materials.
+ * @param {Curve} [specifiedCurve] The curve explicitly specified by the caller.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Curve} The reconciled curve.
+ */
+export function reconcileCurve(detectedCurves: Array<Curve>, specifiedCurve: Curve | undefined, from: string): Curve {
+  const realCurve = detectedCurves[0]
+  if (detectedCurves.some((detected) => detected !== realCurve)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      from,
+      "The public and private key materials are not on the same curve!",
+    )
+  }
+
+  if (specifiedCurve && specifiedCurve !== realCurve) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      from,
+      `The specified curve ${specifiedCurve} does not match the curve ${realCurve} of the verification method!`,
+    )
+  }
+
+  return realCurve
+}
+
+/**
+ * Calculate the base64url encoded coordinates of the public point corresponding to a private key material.
+ *
+ * @param {Uint8Array} material The private key material in `Uint8Array` format.
+ * @param {Curve} curve The curve to use for the keypair.
+ *
+ * @returns {{ x: string, y: string }} The `x` and `y` coordinates of the public point, as in a JWK object.
+ */
+function _materialToCoordinates(material: Uint8Array, curve: Curve): { x: string; y: string } {
+  const length = ec.fieldLength(curve)
+  const point = ec.materialToPoint(material, curve)
+  return {
+    x: encodeBase64url(ec.bigIntToBytes(point.x, length)),
+    y: encodeBase64url(ec.bigIntToBytes(point.y, length)),
+  }
 }
@@ -0,0 +1,47 @@
+import { type Flag, ImplementationError, ImplementationErrorCode } from "@herculas/vc-data-integrity"
+import * as cbor from "cbor2"
+
+import { fieldLength } from "../utils/ec.ts"
+import type { ECKeypair } from "./keypair.ts"
+
+import * as core from "./core.ts"
+import * as PREFIX_CONSTANT from "../constant/prefix.ts"
+
+/**
+ * Export the public or private key of an elliptic curve keypair as a CBOR encoded `COSE_Key` of the `EC2` key type. The
+ * key carries its curve `crv`, the coordinates `x` and `y` of the public point, the private scalar `d` if the private
+ * key is exported, the signature algorithm `alg` appropriate to the curve, and the identifier of the keypair as `kid`
+ * if it is set.
+ *
+ * @param {ECKeypair} keypair An elliptic curve keypair instance.
+ * @param {Flag} flag The flag to determine if the key is private or public.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the CBOR encoded `COSE_Key`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9053#section-7.1.1
+ */
+export async function keypairToCoseKey(keypair: ECKeypair, flag: Flag): Promise<Uint8Array> {
+  if (!keypair.publicKey || (flag === "private" && !keypair.privateKey)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
+      "keypair/cose#keypairToCoseKey",
+      `${flag} key material has not been generated!`,
+    )
+  }
+
+  const length = fieldLength(keypair.curve)
+  const point = await core.keyToMaterial(keypair.publicKey, "public", keypair.curve)
+  const coseKey = new Map<number, unknown>([[PREFIX_CONSTANT.COSE_KEY_KTY, PREFIX_CONSTANT.COSE_KTY_EC2]])
+  if (keypair.id) {
+    coseKey.set(PREFIX_CONSTANT.COSE_KEY_KID, new TextEncoder().encode(keypair.id))
+  }
+  coseKey.set(PREFIX_CONSTANT.COSE_KEY_ALG, PREFIX_CONSTANT.COSE_ALGORITHM.get(keypair.curve)!)
+  coseKey.set(PREFIX_CONSTANT.COSE_KEY_CRV, PREFIX_CONSTANT.COSE_CURVE.get(keypair.curve)!)
+  coseKey.set(PREFIX_CONSTANT.COSE_KEY_X, point.slice(0, length))
+  coseKey.set(PREFIX_CONSTANT.COSE_KEY_Y, point.slice(length))
+  if (flag === "private") {
+    coseKey.set(PREFIX_CONSTANT.COSE_KEY_D, await core.keyToMaterial(keypair.privateKey!, "private", keypair.curve))
+  }
+
+  return cbor.encode(coseKey)
+}
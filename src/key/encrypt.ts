@@ -0,0 +1,415 @@
+import {
+  format,
+  ImplementationError,
+  ImplementationErrorCode,
+  type JWKEC,
+  type VerificationMethodJwk,
+} from "@herculas/vc-data-integrity"
+
+import {
+  decodeElements,
+  decodeInteger,
+  decodeSequence,
+  type DerElement,
+  DerTag,
+  encodeElement,
+  encodeInteger,
+} from "../utils/der.ts"
+import { decodeBase64url, encodeBase64url } from "../utils/base64url.ts"
+
+import * as PREFIX_CONSTANT from "../constant/prefix.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * A `JsonWebKey` verification method whose private key is protected by a passphrase. The `secretKeyJwe` field carries
+ * the `secretKeyJwk` object as a JWE in compact serialization.
+ */
+export type VerificationMethodJwe = VerificationMethodJwk & { secretKeyJwe?: string }
+
+/**
+ * Encrypt a DER encoded PKCS#8 `PrivateKeyInfo` structure into an `EncryptedPrivateKeyInfo` structure, using PBES2
+ * with PBKDF2 (HMAC-SHA-256) as the key derivation function and AES-256-GCM as the encryption scheme.
+ *
+ * @param {Uint8Array} der A DER encoded `PrivateKeyInfo` structure.
+ * @param {string} passphrase The passphrase to protect the private key.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the DER encoded `EncryptedPrivateKeyInfo` structure.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc8018#appendix-A.4
+ */
+export async function encryptPkcs8(der: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const salt = crypto.getRandomValues(new Uint8Array(SUITE_CONSTANT.PBKDF2_SALT_LENGTH))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const iterations = SUITE_CONSTANT.PBKDF2_ITERATIONS
+
+  const key = await _deriveKey(passphrase, salt, iterations, { name: "AES-GCM", length: 256 }, ["encrypt"])
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, der))
+
+  const kdf = encodeElement(
+    DerTag.SEQUENCE,
+    _encodeOid(PREFIX_CONSTANT.OID_PBKDF2),
+    encodeElement(
+      DerTag.SEQUENCE,
+      encodeElement(DerTag.OCTET_STRING, salt),
+      encodeElement(DerTag.INTEGER, encodeInteger(iterations)),
+      encodeElement(DerTag.SEQUENCE, _encodeOid(PREFIX_CONSTANT.OID_HMAC_SHA256), encodeElement(DerTag.NULL)),
+    ),
+  )
+  const scheme = encodeElement(
+    DerTag.SEQUENCE,
+    _encodeOid(PREFIX_CONSTANT.OID_AES256_GCM),
+    encodeElement(
+      DerTag.SEQUENCE,
+      encodeElement(DerTag.OCTET_STRING, iv),
+      encodeElement(DerTag.INTEGER, encodeInteger(16)),
+    ),
+  )
+
+  return encodeElement(
+    DerTag.SEQUENCE,
+    encodeElement(DerTag.SEQUENCE, _encodeOid(PREFIX_CONSTANT.OID_PBES2), encodeElement(DerTag.SEQUENCE, kdf, scheme)),
+    encodeElement(DerTag.OCTET_STRING, encrypted),
+  )
+}
+
+/**
+ * Decrypt a DER encoded PKCS#8 `EncryptedPrivateKeyInfo` structure into a `PrivateKeyInfo` structure. Only PBES2 with
+ * PBKDF2 (HMAC-SHA-256) is supported, with either AES-256-GCM or AES-256-CBC as the encryption scheme. The latter is
+ * accepted for interoperability with keys encrypted by `openssl pkcs8 -topk8`.
+ *
+ * @param {Uint8Array} der A DER encoded `EncryptedPrivateKeyInfo` structure.
+ * @param {string} passphrase The passphrase protecting the private key.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the DER encoded `PrivateKeyInfo` structure.
+ */
+export async function decryptPkcs8(der: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  const [algorithm, encrypted] = decodeSequence(der, "keypair/encrypt#decryptPkcs8")
+  if (algorithm?.tag !== DerTag.SEQUENCE || encrypted?.tag !== DerTag.OCTET_STRING) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      "The encrypted private key structure is malformed!",
+    )
+  }
+
+  // PBES2 parameters
+  const [pbes2, pbes2Params] = _decodeFields(algorithm)
+  _expectOid(pbes2, PREFIX_CONSTANT.OID_PBES2, "PBES2")
+  const [kdf, scheme] = _decodeFields(pbes2Params)
+
+  // PBKDF2 parameters
+  const [pbkdf2, pbkdf2Params] = _decodeFields(kdf)
+  _expectOid(pbkdf2, PREFIX_CONSTANT.OID_PBKDF2, "PBKDF2")
+  const [salt, iterations, ...optional] = _decodeFields(pbkdf2Params)
+  if (salt?.tag !== DerTag.OCTET_STRING || iterations?.tag !== DerTag.INTEGER) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      "The PBKDF2 parameters are malformed!",
+    )
+  }
+  const prf = optional.find((field) => field.tag === DerTag.SEQUENCE)
+  if (!prf) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      "The default PBKDF2 pseudorandom function HMAC-SHA-1 is not supported!",
+    )
+  }
+  _expectOid(_decodeFields(prf)[0], PREFIX_CONSTANT.OID_HMAC_SHA256, "HMAC-SHA-256")
+  const iterationCount = _checkIterations(decodeInteger(iterations.value), "keypair/encrypt#decryptPkcs8")
+
+  // encryption scheme parameters
+  const [cipher, cipherParams] = _decodeFields(scheme)
+  const cipherOid = cipher?.tag === DerTag.OBJECT_IDENTIFIER ? format.bytesToHex(cipher.value) : undefined
+  let params: AesGcmParams | AesCbcParams
+  if (cipherOid === PREFIX_CONSTANT.OID_AES256_GCM) {
+    const [nonce, icvLength] = _decodeFields(cipherParams)
+    if (nonce?.tag !== DerTag.OCTET_STRING) {
+      throw new ImplementationError(
+        ImplementationErrorCode.DECODING_ERROR,
+        "keypair/encrypt#decryptPkcs8",
+        "The AES-GCM parameters are malformed!",
+      )
+    }
+    const tagLength = icvLength ? decodeInteger(icvLength.value) * 8 : 96
+    params = { name: "AES-GCM", iv: nonce.value, tagLength }
+  } else if (cipherOid === PREFIX_CONSTANT.OID_AES256_CBC && cipherParams?.tag === DerTag.OCTET_STRING) {
+    params = { name: "AES-CBC", iv: cipherParams.value }
+  } else {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      `The encryption scheme with object identifier ${cipherOid} is not supported!`,
+    )
+  }
+
+  try {
+    const key = await _deriveKey(passphrase, salt.value, iterationCount, { name: params.name, length: 256 }, [
+      "decrypt",
+    ])
+    return new Uint8Array(await crypto.subtle.decrypt(params, key, encrypted.value))
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      `The passphrase is incorrect or the encrypted private key is corrupted: ${error}`,
+    )
+  }
+}
+
+/**
+ * Encrypt a private key JWK into a JWE in compact serialization, using `PBES2-HS256+A128KW` as the key management
+ * algorithm and `A256GCM` as the content encryption algorithm.
+ *
+ * @param {JWKEC} jwk A private key JWK.
+ * @param {string} passphrase The passphrase to protect the private key.
+ *
+ * @returns {Promise<string>} Resolve to the JWE in compact serialization.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7518#section-4.8
+ */
+export async function encryptJwk(jwk: JWKEC, passphrase: string): Promise<string> {
+  const p2s = crypto.getRandomValues(new Uint8Array(SUITE_CONSTANT.PBKDF2_SALT_LENGTH))
+  const header = {
+    alg: SUITE_CONSTANT.JWE_ALGORITHM,
+    enc: SUITE_CONSTANT.JWE_ENCRYPTION,
+    cty: SUITE_CONSTANT.JWE_CONTENT_TYPE,
+    p2s: encodeBase64url(p2s),
+    p2c: SUITE_CONSTANT.PBKDF2_ITERATIONS,
+  }
+  const protectedHeader = encodeBase64url(new TextEncoder().encode(JSON.stringify(header)))
+
+  const kek = await _deriveKey(passphrase, _jweSalt(p2s), header.p2c, { name: "AES-KW", length: 128 }, ["wrapKey"])
+  const cek = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt"])
+  const encryptedKey = new Uint8Array(await crypto.subtle.wrapKey("raw", cek, kek, "AES-KW"))
+
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const additionalData = new TextEncoder().encode(protectedHeader)
+  const plaintext = new TextEncoder().encode(JSON.stringify(jwk))
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData }, cek, plaintext))
+
+  return [
+    protectedHeader,
+    encodeBase64url(encryptedKey),
+    encodeBase64url(iv),
+    encodeBase64url(encrypted.slice(0, -16)),
+    encodeBase64url(encrypted.slice(-16)),
+  ].join(".")
+}
+
+/**
+ * Decrypt a JWE in compact serialization produced by `encryptJwk` into a private key JWK.
+ *
+ * @param {string} jwe The JWE in compact serialization.
+ * @param {string} passphrase The passphrase protecting the private key.
+ *
+ * @returns {Promise<JWKEC>} Resolve to the private key JWK.
+ */
+export async function decryptJwk(jwe: string, passphrase: string): Promise<JWKEC> {
+  const parts = jwe.split(".")
+  if (parts.length !== 5) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/encrypt#decryptJwk",
+      "The JWE is not in compact serialization!",
+    )
+  }
+
+  let header: { alg?: string; enc?: string; p2s?: string; p2c?: number }
+  try {
+    header = JSON.parse(new TextDecoder().decode(decodeBase64url(parts[0])))
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/encrypt#decryptJwk",
+      `The protected header of the JWE is malformed: ${error}`,
+    )
+  }
+
+  if (
+    header.alg !== SUITE_CONSTANT.JWE_ALGORITHM || header.enc !== SUITE_CONSTANT.JWE_ENCRYPTION || !header.p2s ||
+    !Number.isSafeInteger(header.p2c) || header.p2c! < 1000
+  ) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/encrypt#decryptJwk",
+      `The JWE algorithms '${header.alg}' and '${header.enc}' or their parameters are not supported!`,
+    )
+  }
+
+  const iterationCount = _checkIterations(header.p2c!, "keypair/encrypt#decryptJwk")
+
+  try {
+    const salt = _jweSalt(decodeBase64url(header.p2s))
+    const kek = await _deriveKey(passphrase, salt, iterationCount, { name: "AES-KW", length: 128 }, ["unwrapKey"])
+    const cek = await crypto.subtle.unwrapKey(
+      "raw",
+      decodeBase64url(parts[1]),
+      kek,
+      "AES-KW",
+      "AES-GCM",
+      false,
+      ["decrypt"],
+    )
+
+    const iv = decodeBase64url(parts[2])
+    const additionalData = new TextEncoder().encode(parts[0])
+    const encrypted = format.concatenate(decodeBase64url(parts[3]), decodeBase64url(parts[4]))
+    const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv, additionalData }, cek, encrypted)
+    return JSON.parse(new TextDecoder().decode(plaintext))
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/encrypt#decryptJwk",
+      `The passphrase is incorrect or the JWE is corrupted: ${error}`,
+    )
+  }
+}
+
+/**
+ * Replace the `secretKeyJwk` field of a `JsonWebKey` verification method with its encrypted form `secretKeyJwe`. The
+ * document is returned unchanged if it does not contain a private key.
+ *
+ * @param {VerificationMethodJwk} method A `JsonWebKey` verification method.
+ * @param {string} passphrase The passphrase to protect the private key.
+ *
+ * @returns {Promise<VerificationMethodJwe>} Resolve to the verification method with an encrypted private key.
+ */
+export async function encryptVerificationMethod(
+  method: VerificationMethodJwk,
+  passphrase: string,
+): Promise<VerificationMethodJwe> {
+  if (!method.secretKeyJwk) {
+    return method
+  }
+  const { secretKeyJwk, ...rest } = method
+  return { ...rest, secretKeyJwe: await encryptJwk(secretKeyJwk as JWKEC, passphrase) }
+}
+
+/**
+ * Replace the `secretKeyJwe` field of a `JsonWebKey` verification method with the decrypted `secretKeyJwk`. The
+ * document is returned unchanged if it does not contain an encrypted private key.
+ *
+ * @param {VerificationMethodJwe} method A `JsonWebKey` verification method with an encrypted private key.
+ * @param {string} passphrase The passphrase protecting the private key.
+ *
+ * @returns {Promise<VerificationMethodJwk>} Resolve to the verification method with a cleartext private key.
+ */
+export async function decryptVerificationMethod(
+  method: VerificationMethodJwe,
+  passphrase: string,
+): Promise<VerificationMethodJwk> {
+  if (!method.secretKeyJwe) {
+    return method
+  }
+  const { secretKeyJwe, ...rest } = method
+  return { ...rest, secretKeyJwk: await decryptJwk(secretKeyJwe, passphrase) }
+}
+
+/**
+ * Check the PBKDF2 iteration count read from an encrypted private key, which is untrusted input. A count above
+ * `PBKDF2_MAX_ITERATIONS` is rejected, since the key derivation would otherwise stall the process.
+ *
+ * @param {number} iterations The iteration count.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {number} The iteration count, if it is within the supported range.
+ */
+function _checkIterations(iterations: number, from: string): number {
+  if (iterations < 1 || iterations > SUITE_CONSTANT.PBKDF2_MAX_ITERATIONS) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      from,
+      `The PBKDF2 iteration count ${iterations} is out of the supported range!`,
+    )
+  }
+  return iterations
+}
+
+/**
+ * Derive an AES key from a passphrase using PBKDF2 with HMAC-SHA-256.
+ *
+ * @param {string} passphrase The passphrase.
+ * @param {Uint8Array} salt The salt.
+ * @param {number} iterations The iteration count.
+ * @param {AesKeyAlgorithm} algorithm The algorithm of the derived key.
+ * @param {Array<KeyUsage>} usages The usages of the derived key.
+ *
+ * @returns {Promise<CryptoKey>} Resolve to the derived key.
+ */
+async function _deriveKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+  algorithm: AesKeyAlgorithm,
+  usages: Array<KeyUsage>,
+): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ])
+  return await crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    base,
+    algorithm,
+    false,
+    usages,
+  )
+}
+
+/**
+ * Compute the PBES2 salt of a JWE, which is the UTF-8 encoded algorithm name, a zero octet, and the `p2s` value.
+ *
+ * @param {Uint8Array} p2s The salt input from the `p2s` header parameter.
+ *
+ * @returns {Uint8Array} The salt used by PBKDF2.
+ */
+function _jweSalt(p2s: Uint8Array): Uint8Array {
+  return format.concatenate(new TextEncoder().encode(SUITE_CONSTANT.JWE_ALGORITHM), new Uint8Array([0]), p2s)
+}
+
+/**
+ * Check that an object identifier element matches the expected one.
+ *
+ * @param {DerElement} [oid] The object identifier element.
+ * @param {string} expected The expected object identifier in hex.
+ * @param {string} name The name of the expected algorithm, used in error messages.
+ */
+function _expectOid(oid: DerElement | undefined, expected: string, name: string) {
+  if (oid?.tag !== DerTag.OBJECT_IDENTIFIER || format.bytesToHex(oid.value) !== expected) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      `The encrypted private key is not protected by ${name}!`,
+    )
+  }
+}
+
+/**
+ * Encode an object identifier element from its value in hex.
+ *
+ * @param {string} oidHex The object identifier in hex.
+ *
+ * @returns {Uint8Array} The DER encoded object identifier.
+ */
+function _encodeOid(oidHex: string): Uint8Array {
+  return encodeElement(DerTag.OBJECT_IDENTIFIER, format.hexToBytes(oidHex))
+}
+
+/**
+ * Decode the fields of a `SEQUENCE` element nested in an encrypted private key structure.
+ *
+ * @param {DerElement} [element] A decoded element.
+ *
+ * @returns {Array<DerElement>} The fields of the sequence.
+ */
+function _decodeFields(element: DerElement | undefined): Array<DerElement> {
+  if (element?.tag !== DerTag.SEQUENCE) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/encrypt#decryptPkcs8",
+      "The encrypted private key structure is malformed!",
+    )
+  }
+  return decodeElements(element.value)
+}
@@ -1,6 +1,7 @@
 import {
   document,
   type Export,
+  type Flag,
   ImplementationError,
   ImplementationErrorCode,
   type Import,
@@ -9,13 +10,15 @@ import {
   type URI,
   VC_BASE_URL,
   type VerificationMethod,
-  type VerificationMethodJwk,
   type VerificationMethodMultibase,
 } from "@herculas/vc-data-integrity"
 
 import { Curve } from "../constant/curve.ts"
 
 import * as core from "./core.ts"
+import * as cose from "./cose.ts"
+import * as encrypt from "./encrypt.ts"
+import * as pem from "./pem.ts"
 import * as SUITE_CONSTANT from "../constant/suite.ts"
 
 /**
@@ -55,16 +58,21 @@ export class ECKeypair extends Keypair {
   }
 
   /**
-   * Initialize an elliptic curve keypair using the Web Crypto API, and set the public and private keys.
+   * Initialize an elliptic curve keypair using the Web Crypto API, and set the public and private keys. If the
+   * controller is specified, the identifier fragment is set to the multibase fingerprint, or to the RFC 7638 JWK
+   * thumbprint if `options.thumbprint` is set.
+   *
+   * @param {object} [options] The options to initialize the keypair.
    */
-  override async initialize() {
+  override async initialize(options?: { thumbprint?: boolean }) {
     const keypair = await core.generateRawKeypair(this.curve)
     this.publicKey = keypair.publicKey
     this.privateKey = keypair.privateKey
 
     // set the identifier if the controller is specified
     if (this.controller && !this.id) {
-      this.id = `${this.controller}#${await this.generateFingerprint()}`
+      const fragment = options?.thumbprint ? await this.generateThumbprint() : await this.generateFingerprint()
+      this.id = `${this.controller}#${fragment}`
     }
   }
 
@@ -88,25 +96,51 @@ export class ECKeypair extends Keypair {
   }
 
   /**
-   * Verify that a provided fingerprint matches the public key material belonging to this keypair.
+   * Calculate the RFC 7638 JWK thumbprint of the public key, which could be used as the key identifier fragment in
+   * place of the multibase fingerprint.
    *
-   * @param {string} fingerprint A public key fingerprint.
+   * @returns {Promise<string>} Resolve to the base64url encoded thumbprint.
+   */
+  async generateThumbprint(): Promise<string> {
+    if (!this.publicKey) {
+      throw new ImplementationError(
+        ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+        "ECKeypair::generateThumbprint",
+        "Public key has not been generated!",
+      )
+    }
+    return core.getJwkThumbprint(await core.keyToJwk(this.publicKey, "public"))
+  }
+
+  /**
+   * Verify that a provided fingerprint matches the public key material belonging to this keypair. Both the multibase
+   * fingerprint and the JWK thumbprint are accepted.
+   *
+   * @param {string} fingerprint A public key fingerprint or JWK thumbprint.
    *
    * @returns {Promise<boolean>} Resolve to a boolean indicating whether the given fingerprint matches this keypair
    * instance.
    */
   override async verifyFingerprint(fingerprint: string): Promise<boolean> {
-    return fingerprint === (await this.generateFingerprint())
+    return fingerprint === (await this.generateFingerprint()) || fingerprint === (await this.generateThumbprint())
   }
 
   /**
    * Export the serialized representation of the keypair, along with other metadata which can be used to form a proof.
    *
+   * A `JsonWebKey` document is always identified by the JWK thumbprint of the public key. A `Multikey` document is
+   * identified by the identifier of this keypair, unless `options.thumbprint` is set.
+   *
+   * If `options.passphrase` is provided, the private key of a `JsonWebKey` document is encrypted into a JWE, which is
+   * stored in the `secretKeyJwe` field in place of `secretKeyJwk`.
+   *
    * @param {Export} [options] The options to export the keypair.
    *
    * @returns {Promise<VerificationMethod>} Resolve to a verification method containing the serialized keypair.
    */
-  override export(options?: Export): Promise<VerificationMethod> {
+  override async export(
+    options?: Export & { thumbprint?: boolean; passphrase?: string },
+  ): Promise<VerificationMethod> {
     // set default options
     options = options ?? {}
     options.flag ||= "public"
@@ -130,11 +164,23 @@ export class ECKeypair extends Keypair {
       )
     }
 
+    // only the private key of a JSON Web Key could be encrypted
+    if (
+      options.passphrase && options.flag === "private" && options.type !== SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_JWK
+    ) {
+      throw new ImplementationError(
+        ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
+        "ECKeypair::export",
+        "Encrypted private keys could only be exported in JsonWebKey format!",
+      )
+    }
+
     // generate the verification method
     if (options.type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_MULTI) {
-      return core.keypairToMultibase(this, options.flag)
+      return await core.keypairToMultibase(this, options.flag, options.thumbprint)
     } else if (options.type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_JWK) {
-      return core.keypairToJwk(this, options.flag)
+      const method = await core.keypairToJwk(this, options.flag)
+      return options.passphrase ? await encrypt.encryptVerificationMethod(method, options.passphrase) : method
     } else {
       throw new ImplementationError(
         ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
@@ -145,7 +191,39 @@ export class ECKeypair extends Keypair {
   }
 
   /**
-   * Import an elliptic curve keypair from a verification method document.
+   * Export the public or private key of this keypair into a PEM encoded block. A public key is encoded in SPKI format
+   * with the `PUBLIC KEY` label. A private key is encoded in PKCS#8 format with the `PRIVATE KEY` label, or in SEC1
+   * format with the `EC PRIVATE KEY` label if `options.sec1` is set. If `options.passphrase` is provided, a private key
+   * is encrypted in PKCS#8 format with the `ENCRYPTED PRIVATE KEY` label.
+   *
+   * @param {object} [options] The options to export the keypair.
+   *
+   * @returns {Promise<string>} Resolve to the PEM encoded key block.
+   */
+  toPem(options?: { flag?: Flag; sec1?: boolean; passphrase?: string }): Promise<string> {
+    return pem.keypairToPem(this, options?.flag ?? "public", options?.sec1, options?.passphrase)
+  }
+
+  /**
+   * Export the public or private key of this keypair as a CBOR encoded `COSE_Key`, e.g., to provision verifiers of
+   * credentials secured with COSE.
+   *
+   * @param {object} [options] The options to export the keypair, i.e., whether to export the `public` or `private` key.
+   *
+   * @returns {Promise<Uint8Array>} Resolve to the CBOR encoded `COSE_Key`.
+   */
+  toCoseKey(options?: { flag?: Flag }): Promise<Uint8Array> {
+    return cose.keypairToCoseKey(this, options?.flag ?? "public")
+  }
+
+  /**
+   * Import an elliptic curve keypair from a verification method document. The curve of the keypair is detected from the
+   * multicodec prefix of a `Multikey`, or from the `crv` field of a `JsonWebKey`. If `options.curve` is specified, it
+   * MUST match the detected curve. A legacy `EcdsaSecp256r1VerificationKey2019` is imported in the same way, from its
+   * JWK or multibase key.
+   *
+   * An encrypted private key in the `secretKeyJwe` field is decrypted if `options.passphrase` is provided, and ignored
+   * otherwise.
    *
    * @param {VerificationMethod} inputDocument A verification method document fetched from an external source.
    * @param {object} [options] Options for keypair import.
@@ -154,11 +232,10 @@ export class ECKeypair extends Keypair {
    */
   static override async import(
     inputDocument: VerificationMethod,
-    options?: Import & { curve?: Curve },
+    options?: Import & { curve?: Curve; passphrase?: string },
   ): Promise<ECKeypair> {
     // set default options
     options = options ?? {}
-    options.curve ||= Curve.P256
 
     // validate the JSON-LD context
     if (options.checkContext) {
@@ -192,11 +269,23 @@ export class ECKeypair extends Keypair {
       )
     }
 
+    // a legacy verification method carries its key either as a JWK or as a multibase value
+    let type = inputDocument.type
+    if (type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_LEGACY) {
+      type = "publicKeyJwk" in inputDocument || "secretKeyJwk" in inputDocument
+        ? SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_JWK
+        : SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_MULTI
+    }
+
     // import the keypair from the verification method
-    if (inputDocument.type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_MULTI) {
+    if (type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_MULTI) {
       return core.multibaseToKeypair(inputDocument as VerificationMethodMultibase, options.curve, expires, revoked)
-    } else if (inputDocument.type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_JWK) {
-      return core.jwkToKeypair(inputDocument as VerificationMethodJwk, options.curve, expires, revoked)
+    } else if (type === SUITE_CONSTANT.KEYPAIR_DOCUMENT_TYPE_JWK) {
+      let method = inputDocument as encrypt.VerificationMethodJwe
+      if (options.passphrase) {
+        method = await encrypt.decryptVerificationMethod(method, options.passphrase)
+      }
+      return core.jwkToKeypair(method, options.curve, expires, revoked)
     } else {
       throw new ImplementationError(
         ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
@@ -205,4 +294,41 @@ export class ECKeypair extends Keypair {
       )
     }
   }
+
+  /**
+   * Import an elliptic curve keypair from PEM encoded `PUBLIC KEY`, `PRIVATE KEY`, `ENCRYPTED PRIVATE KEY` or
+   * `EC PRIVATE KEY` blocks. The curve of the keypair is detected from the named curve object identifier. If
+   * `options.curve` is specified, it MUST match the detected curve. If only a private key is presented, the public key
+   * is recovered from it. An encrypted private key requires `options.passphrase`.
+   *
+   * @param {string} input The PEM encoded key blocks.
+   * @param {object} [options] Options for keypair import.
+   *
+   * @returns {Promise<ECKeypair>} Resolve to an elliptic curve keypair instance.
+   */
+  static fromPem(
+    input: string,
+    options?: { curve?: Curve; id?: URI; controller?: URI; passphrase?: string },
+  ): Promise<ECKeypair> {
+    return pem.pemToKeypair(input, options?.curve, options?.id, options?.controller, options?.passphrase)
+  }
+
+  /**
+   * Deterministically derive an elliptic curve keypair from a seed. The private key is derived via HKDF with rejection
+   * sampling, so that the same seed, curve and context information always yield the same keypair. Distinct `info`
+   * values could be used to derive independent keypairs, e.g., one per tenant, from a single seed.
+   *
+   * @param {Uint8Array} seed The seed material, at least 32 octets long.
+   * @param {Curve} [curve] The elliptic curve of the keypair, default to P-256.
+   * @param {string} [info] The context information of the derivation.
+   *
+   * @returns {Promise<ECKeypair>} Resolve to an elliptic curve keypair instance.
+   */
+  static async fromSeed(seed: Uint8Array, curve: Curve = Curve.P256, info?: string): Promise<ECKeypair> {
+    const material = await core.seedToMaterial(seed, curve, info)
+    const keypair = new ECKeypair(curve)
+    keypair.privateKey = await core.materialToPrivateKey(material, curve)
+    keypair.publicKey = await core.privateKeyToPublicKey(keypair.privateKey)
+    return keypair
+  }
 }
@@ -0,0 +1,428 @@
+import { type Flag, format, ImplementationError, ImplementationErrorCode, type URI } from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+import { decodeElement, decodeElements, decodeSequence, type DerElement, DerTag, encodeElement } from "../utils/der.ts"
+import { ECKeypair } from "./keypair.ts"
+
+import * as core from "./core.ts"
+import * as encrypt from "./encrypt.ts"
+import * as PREFIX_CONSTANT from "../constant/prefix.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * Import an elliptic curve keypair from PEM encoded key blocks. The following block labels are supported:
+ *
+ * - `PUBLIC KEY`: a public key in SPKI format.
+ * - `PRIVATE KEY`: a private key in PKCS#8 format.
+ * - `EC PRIVATE KEY`: a private key in SEC1 format, as produced by `openssl ecparam -genkey`.
+ * - `ENCRYPTED PRIVATE KEY`: a private key in PKCS#8 format encrypted with PBES2, which requires a passphrase.
+ *
+ * An `EC PARAMETERS` block is tolerated and ignored. The curve is detected from the named curve object identifier
+ * within each block. If only a private key is presented, the public key is recovered from it.
+ *
+ * @param {string} pem The PEM encoded key blocks.
+ * @param {Curve} [curve] The expected curve of the keypair.
+ * @param {URI} [id] The identifier of the keypair.
+ * @param {URI} [controller] The controller of the keypair.
+ * @param {string} [passphrase] The passphrase to decrypt an encrypted private key.
+ *
+ * @returns {Promise<ECKeypair>} Resolve to an elliptic curve keypair instance.
+ */
+export async function pemToKeypair(
+  pem: string,
+  curve?: Curve,
+  id?: URI,
+  controller?: URI,
+  passphrase?: string,
+): Promise<ECKeypair> {
+  let privateDer: Uint8Array | undefined
+  let publicDer: Uint8Array | undefined
+  const detectedCurves: Array<Curve> = []
+
+  for (const block of _decodePem(pem)) {
+    if (block.label === SUITE_CONSTANT.PEM_LABEL_PARAMETERS) {
+      continue
+    }
+
+    if (
+      (block.label === SUITE_CONSTANT.PEM_LABEL_PUBLIC && publicDer) ||
+      (block.label !== SUITE_CONSTANT.PEM_LABEL_PUBLIC && privateDer)
+    ) {
+      throw new ImplementationError(
+        ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+        "keypair/pem#pemToKeypair",
+        "The PEM input contains more than one key of the same kind!",
+      )
+    }
+
+    if (block.label === SUITE_CONSTANT.PEM_LABEL_PUBLIC) {
+      detectedCurves.push(spkiToCurve(block.der))
+      publicDer = block.der
+    } else if (block.label === SUITE_CONSTANT.PEM_LABEL_PRIVATE) {
+      detectedCurves.push(pkcs8ToCurve(block.der))
+      privateDer = block.der
+    } else if (block.label === SUITE_CONSTANT.PEM_LABEL_ENCRYPTED) {
+      if (!passphrase) {
+        throw new ImplementationError(
+          ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+          "keypair/pem#pemToKeypair",
+          "A passphrase is required to import an encrypted private key!",
+        )
+      }
+      privateDer = await encrypt.decryptPkcs8(block.der, passphrase)
+      detectedCurves.push(pkcs8ToCurve(privateDer))
+    } else if (block.label === SUITE_CONSTANT.PEM_LABEL_SEC1) {
+      const converted = sec1ToPkcs8(block.der, curve)
+      detectedCurves.push(converted.curve)
+      privateDer = converted.der
+    } else {
+      throw new ImplementationError(
+        ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+        "keypair/pem#pemToKeypair",
+        `The PEM block label '${block.label}' is not supported!`,
+      )
+    }
+  }
+
+  if (!privateDer && !publicDer) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/pem#pemToKeypair",
+      "No key block is found in the PEM input!",
+    )
+  }
+
+  const realCurve = core.reconcileCurve(detectedCurves, curve, "keypair/pem#pemToKeypair")
+  const keypair = new ECKeypair(realCurve, id, controller)
+  const algorithm = { name: SUITE_CONSTANT.ALGORITHM, namedCurve: realCurve }
+
+  try {
+    if (privateDer) {
+      keypair.privateKey = await crypto.subtle.importKey("pkcs8", privateDer, algorithm, true, ["sign"])
+    }
+    if (publicDer) {
+      keypair.publicKey = await crypto.subtle.importKey("spki", publicDer, algorithm, true, ["verify"])
+    } else {
+      // recover the public key from the private key
+      keypair.publicKey = await core.privateKeyToPublicKey(keypair.privateKey!)
+    }
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/pem#pemToKeypair",
+      `The key material in the PEM input could not be imported: ${error}!`,
+    )
+  }
+
+  // the public key MUST correspond to the private key if both are presented
+  if (privateDer && publicDer) {
+    await core.checkKeypair(keypair.privateKey!, keypair.publicKey, "keypair/pem#pemToKeypair")
+  }
+
+  // set the identifier if the controller is specified
+  if (keypair.controller && !keypair.id) {
+    keypair.id = `${keypair.controller}#${await keypair.generateFingerprint()}`
+  }
+
+  return keypair
+}
+
+/**
+ * Export the public or private key of an elliptic curve keypair into a PEM encoded block. A public key is exported in
+ * SPKI format, and a private key is exported in PKCS#8 format by default, or in SEC1 format if `sec1` is set. If a
+ * passphrase is provided, the private key is exported as an encrypted PKCS#8 structure instead.
+ *
+ * @param {ECKeypair} keypair An elliptic curve keypair instance.
+ * @param {Flag} flag The flag to determine if the key is private or public.
+ * @param {boolean} [sec1] Whether to export the private key in SEC1 format, default to `false`.
+ * @param {string} [passphrase] The passphrase to encrypt the private key.
+ *
+ * @returns {Promise<string>} Resolve to the PEM encoded key block.
+ */
+export async function keypairToPem(
+  keypair: ECKeypair,
+  flag: Flag,
+  sec1: boolean = false,
+  passphrase?: string,
+): Promise<string> {
+  const key = flag === "private" ? keypair.privateKey : keypair.publicKey
+  if (!key) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
+      "keypair/pem#keypairToPem",
+      `${flag} key material has not been generated!`,
+    )
+  }
+
+  if (!PREFIX_CONSTANT.OID_CURVE.has(keypair.curve)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
+      "keypair/pem#keypairToPem",
+      `The ${keypair.curve} curve keys could not be exported in PEM format!`,
+    )
+  }
+
+  const der = new Uint8Array(await crypto.subtle.exportKey(SUITE_CONSTANT.KEY_FORMAT.get(flag)!, key))
+  if (flag === "public") {
+    return _encodePem(der, SUITE_CONSTANT.PEM_LABEL_PUBLIC)
+  } else if (passphrase) {
+    if (sec1) {
+      throw new ImplementationError(
+        ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
+        "keypair/pem#keypairToPem",
+        "Encrypted private keys could only be exported in PKCS#8 format!",
+      )
+    }
+    return _encodePem(await encrypt.encryptPkcs8(der, passphrase), SUITE_CONSTANT.PEM_LABEL_ENCRYPTED)
+  } else if (sec1) {
+    return _encodePem(pkcs8ToSec1(der, keypair.curve), SUITE_CONSTANT.PEM_LABEL_SEC1)
+  } else {
+    return _encodePem(der, SUITE_CONSTANT.PEM_LABEL_PRIVATE)
+  }
+}
+
+/**
+ * Detect the elliptic curve of a DER encoded public key in SPKI format, from its `AlgorithmIdentifier`.
+ *
+ * @param {Uint8Array} der A DER encoded `SubjectPublicKeyInfo` structure.
+ *
+ * @returns {Curve} The curve indicated by the named curve object identifier.
+ */
+export function spkiToCurve(der: Uint8Array): Curve {
+  const fields = decodeSequence(der, "keypair/pem#spkiToCurve")
+  return _algorithmToCurve(fields[0], "keypair/pem#spkiToCurve")
+}
+
+/**
+ * Detect the elliptic curve of a DER encoded private key in PKCS#8 format, from its `AlgorithmIdentifier`.
+ *
+ * @param {Uint8Array} der A DER encoded `PrivateKeyInfo` structure.
+ *
+ * @returns {Curve} The curve indicated by the named curve object identifier.
+ */
+export function pkcs8ToCurve(der: Uint8Array): Curve {
+  const fields = decodeSequence(der, "keypair/pem#pkcs8ToCurve")
+  return _algorithmToCurve(fields[1], "keypair/pem#pkcs8ToCurve")
+}
+
+/**
+ * Wrap a DER encoded SEC1 `ECPrivateKey` structure into a PKCS#8 `PrivateKeyInfo` structure, which could be imported by
+ * the Web Crypto API. The curve is taken from the optional `parameters` field of the SEC1 structure, or from the curve
+ * specified by the caller if the field is absent.
+ *
+ * @param {Uint8Array} der A DER encoded `ECPrivateKey` structure.
+ * @param {Curve} [curve] The curve to fall back on when the SEC1 structure carries no parameters.
+ *
+ * @returns {{ der: Uint8Array, curve: Curve }} The DER encoded `PrivateKeyInfo` structure and its curve.
+ */
+export function sec1ToPkcs8(der: Uint8Array, curve?: Curve): { der: Uint8Array; curve: Curve } {
+  const fields = decodeSequence(der, "keypair/pem#sec1ToPkcs8")
+  const [version, privateKey] = fields
+  if (
+    version?.tag !== DerTag.INTEGER || version.value.length !== 1 || version.value[0] !== 1 ||
+    privateKey?.tag !== DerTag.OCTET_STRING
+  ) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/pem#sec1ToPkcs8",
+      "The SEC1 private key structure is malformed!",
+    )
+  }
+
+  const parameters = fields.find((field) => field.tag === DerTag.CONTEXT_0)
+  const publicKey = fields.find((field) => field.tag === DerTag.CONTEXT_1)
+
+  let realCurve = curve
+  if (parameters) {
+    realCurve = _oidToCurve(decodeElement(parameters.value), "keypair/pem#sec1ToPkcs8")
+  }
+  if (!realCurve) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "keypair/pem#sec1ToPkcs8",
+      "The SEC1 private key does not specify its curve, and no curve is provided!",
+    )
+  }
+
+  // the curve is moved from the SEC1 structure into the PKCS#8 algorithm identifier
+  const inner = encodeElement(
+    DerTag.SEQUENCE,
+    encodeElement(DerTag.INTEGER, version.value),
+    encodeElement(DerTag.OCTET_STRING, privateKey.value),
+    ...(publicKey ? [encodeElement(DerTag.CONTEXT_1, publicKey.value)] : []),
+  )
+  const pkcs8 = encodeElement(
+    DerTag.SEQUENCE,
+    encodeElement(DerTag.INTEGER, new Uint8Array([0])),
+    _encodeAlgorithm(realCurve),
+    encodeElement(DerTag.OCTET_STRING, inner),
+  )
+
+  return { der: pkcs8, curve: realCurve }
+}
+
+/**
+ * Unwrap a DER encoded PKCS#8 `PrivateKeyInfo` structure into a SEC1 `ECPrivateKey` structure. The named curve object
+ * identifier is placed in the `parameters` field, so that the result is self-contained.
+ *
+ * @param {Uint8Array} der A DER encoded `PrivateKeyInfo` structure.
+ * @param {Curve} curve The curve of the private key.
+ *
+ * @returns {Uint8Array} The DER encoded `ECPrivateKey` structure.
+ */
+export function pkcs8ToSec1(der: Uint8Array, curve: Curve): Uint8Array {
+  const outer = decodeSequence(der, "keypair/pem#pkcs8ToSec1")
+  if (outer[2]?.tag !== DerTag.OCTET_STRING) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/pem#pkcs8ToSec1",
+      "The PKCS#8 private key structure is malformed!",
+    )
+  }
+
+  const fields = decodeSequence(outer[2].value, "keypair/pem#pkcs8ToSec1")
+  const [version, privateKey] = fields
+  const publicKey = fields.find((field) => field.tag === DerTag.CONTEXT_1)
+  if (version?.tag !== DerTag.INTEGER || privateKey?.tag !== DerTag.OCTET_STRING) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/pem#pkcs8ToSec1",
+      "The SEC1 private key structure within PKCS#8 is malformed!",
+    )
+  }
+
+  return encodeElement(
+    DerTag.SEQUENCE,
+    encodeElement(DerTag.INTEGER, version.value),
+    encodeElement(DerTag.OCTET_STRING, privateKey.value),
+    encodeElement(DerTag.CONTEXT_0, _encodeCurve(curve)),
+    ...(publicKey ? [encodeElement(DerTag.CONTEXT_1, publicKey.value)] : []),
+  )
+}
+
+/**
+ * Split a PEM input into its labelled blocks, and decode the base64 body of each block.
+ *
+ * @param {string} pem The PEM encoded input.
+ *
+ * @returns {Array<{ label: string, der: Uint8Array }>} The label and the DER octets of each block.
+ */
+function _decodePem(pem: string): Array<{ label: string; der: Uint8Array }> {
+  const blocks: Array<{ label: string; der: Uint8Array }> = []
+  const pattern = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g
+
+  for (const match of pem.matchAll(pattern)) {
+    try {
+      const binary = atob(match[2].replace(/\s+/g, ""))
+      blocks.push({ label: match[1], der: Uint8Array.from(binary, (char) => char.charCodeAt(0)) })
+    } catch (error) {
+      throw new ImplementationError(
+        ImplementationErrorCode.DECODING_ERROR,
+        "keypair/pem#_decodePem",
+        `The body of the PEM block '${match[1]}' is not valid base64: ${error}!`,
+      )
+    }
+  }
+
+  return blocks
+}
+
+/**
+ * Encode DER octets into a PEM block with the given label, wrapping the base64 body at 64 characters per line.
+ *
+ * @param {Uint8Array} der The DER octets.
+ * @param {string} label The label of the PEM block.
+ *
+ * @returns {string} The PEM encoded block.
+ */
+function _encodePem(der: Uint8Array, label: string): string {
+  const body = btoa(String.fromCharCode(...der)).match(/.{1,64}/g)!.join("\n")
+  return `-----BEGIN ${label}-----\n${body}\n-----END ${label}-----\n`
+}
+
+/**
+ * Detect the elliptic curve from a DER encoded `AlgorithmIdentifier`, which MUST identify the ANSI X9.62 ECDSA
+ * algorithm with a named curve as its parameter.
+ *
+ * @param {DerElement} [algorithm] The `AlgorithmIdentifier` element.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Curve} The curve indicated by the named curve object identifier.
+ */
+function _algorithmToCurve(algorithm: DerElement | undefined, from: string): Curve {
+  if (algorithm?.tag !== DerTag.SEQUENCE) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      from,
+      "The algorithm identifier of the key is malformed!",
+    )
+  }
+
+  const [oid, parameters] = decodeElements(algorithm.value)
+  if (oid?.tag !== DerTag.OBJECT_IDENTIFIER || format.bytesToHex(oid.value) !== PREFIX_CONSTANT.OID_EC_PUBLIC_KEY) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      from,
+      "The key is not an elliptic curve key!",
+    )
+  }
+
+  return _oidToCurve(parameters, from)
+}
+
+/**
+ * Look up the elliptic curve represented by a DER encoded named curve object identifier.
+ *
+ * @param {DerElement} [oid] The object identifier element.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Curve} The curve represented by the object identifier.
+ */
+function _oidToCurve(oid: DerElement | undefined, from: string): Curve {
+  if (oid?.tag !== DerTag.OBJECT_IDENTIFIER) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      from,
+      "The key does not specify a named curve!",
+    )
+  }
+
+  const oidHex = format.bytesToHex(oid.value)
+  for (const [curve, curveOidHex] of PREFIX_CONSTANT.OID_CURVE) {
+    if (oidHex === curveOidHex) {
+      return curve
+    }
+  }
+
+  throw new ImplementationError(
+    ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+    from,
+    `The curve with object identifier ${oidHex} is not supported by this suite!`,
+  )
+}
+
+/**
+ * Encode the named curve object identifier of the given curve.
+ *
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {Uint8Array} The DER encoded object identifier.
+ */
+function _encodeCurve(curve: Curve): Uint8Array {
+  return encodeElement(DerTag.OBJECT_IDENTIFIER, format.hexToBytes(PREFIX_CONSTANT.OID_CURVE.get(curve)!))
+}
+
+/**
+ * Encode the `AlgorithmIdentifier` of an elliptic curve key on the given curve.
+ *
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {Uint8Array} The DER encoded `AlgorithmIdentifier`.
+ */
+function _encodeAlgorithm(curve: Curve): Uint8Array {
+  return encodeElement(
+    DerTag.SEQUENCE,
+    encodeElement(DerTag.OBJECT_IDENTIFIER, format.hexToBytes(PREFIX_CONSTANT.OID_EC_PUBLIC_KEY)),
+    _encodeCurve(curve),
+  )
+}
@@ -0,0 +1,196 @@
+import { ImplementationError, ImplementationErrorCode } from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+import { decodeElement, decodeElements, DerTag, encodeElement } from "../utils/der.ts"
+
+import * as ec from "../utils/ec.ts"
+
+/**
+ * Convert an ECDSA signature from the IEEE P1363 format, i.e., the fixed-length concatenation `r||s` used by the Web
+ * Crypto API and the data integrity proofs, into the ASN.1 DER encoded `Ecdsa-Sig-Value` structure used by OpenSSL,
+ * Java and X.509.
+ *
+ * @param {Uint8Array} signature The signature in IEEE P1363 format.
+ *
+ * @returns {Uint8Array} The DER encoded signature.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3279#section-2.2.3
+ */
+export function p1363ToDer(signature: Uint8Array): Uint8Array {
+  if (signature.length === 0 || signature.length % 2 !== 0) {
+    throw new ImplementationError(
+      ImplementationErrorCode.ENCODING_ERROR,
+      "keypair/signature#p1363ToDer",
+      "The IEEE P1363 signature must consist of two integers of equal length!",
+    )
+  }
+
+  const half = signature.length / 2
+  const r = _encodeInteger(signature.slice(0, half))
+  const s = _encodeInteger(signature.slice(half))
+  return encodeElement(DerTag.SEQUENCE, encodeElement(DerTag.INTEGER, r), encodeElement(DerTag.INTEGER, s))
+}
+
+/**
+ * Convert an ASN.1 DER encoded ECDSA signature into the IEEE P1363 format of the specified curve, where both `r` and
+ * `s` are left-padded to the byte length of the curve order.
+ *
+ * @param {Uint8Array} der The DER encoded signature.
+ * @param {Curve} curve The elliptic curve of the signing key.
+ *
+ * @returns {Uint8Array} The signature in IEEE P1363 format.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc3279#section-2.2.3
+ */
+export function derToP1363(der: Uint8Array, curve: Curve): Uint8Array {
+  const length = ec.fieldLength(curve)
+  const { n } = ec.curveToParameter(curve)
+
+  const sequence = decodeElement(der)
+  const fields = decodeElements(sequence.value)
+  if (
+    sequence.tag !== DerTag.SEQUENCE || sequence.end !== der.length || fields.length !== 2 ||
+    fields.some((field) => field.tag !== DerTag.INTEGER)
+  ) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/signature#derToP1363",
+      "The DER signature is not a sequence of two integers!",
+    )
+  }
+
+  const integers = fields.map((field) => _decodeInteger(field.value))
+  if (integers.some((value) => value < 1n || value >= n)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/signature#derToP1363",
+      `The DER signature components are out of range for the ${curve} curve!`,
+    )
+  }
+
+  const signature = new Uint8Array(length * 2)
+  signature.set(ec.bigIntToBytes(integers[0], length), 0)
+  signature.set(ec.bigIntToBytes(integers[1], length), length)
+  return signature
+}
+
+/**
+ * Determine whether a signature is ASN.1 DER encoded rather than in the IEEE P1363 format of the specified curve. A
+ * signature whose length matches the IEEE P1363 format is never regarded as DER encoded.
+ *
+ * @param {Uint8Array} signature The signature to inspect.
+ * @param {Curve} curve The elliptic curve of the signing key.
+ *
+ * @returns {boolean} `true` if the signature is a well-formed DER encoded signature for the curve.
+ */
+export function isDerSignature(signature: Uint8Array, curve: Curve): boolean {
+  if (signature.length === ec.fieldLength(curve) * 2 || signature[0] !== DerTag.SEQUENCE) {
+    return false
+  }
+
+  try {
+    derToP1363(signature, curve)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Determine whether an IEEE P1363 signature is in the low-S form, i.e., its `s` component is at most half of the curve
+ * order. Since both `(r, s)` and `(r, n - s)` are valid signatures over the same data, accepting only one of them
+ * removes the malleability of ECDSA signatures.
+ *
+ * @param {Uint8Array} signature The signature in IEEE P1363 format.
+ * @param {Curve} curve The elliptic curve of the signing key.
+ *
+ * @returns {boolean} `true` if the signature is in the low-S form.
+ */
+export function isLowS(signature: Uint8Array, curve: Curve): boolean {
+  const { n } = ec.curveToParameter(curve)
+  return _splitSignature(signature, curve, "keypair/signature#isLowS").s <= n >> 1n
+}
+
+/**
+ * Normalize an IEEE P1363 signature into the low-S form, by replacing a high `s` component with `n - s`. The result
+ * verifies against the same data and public key as the original signature.
+ *
+ * @param {Uint8Array} signature The signature in IEEE P1363 format.
+ * @param {Curve} curve The elliptic curve of the signing key.
+ *
+ * @returns {Uint8Array} The signature in the low-S form.
+ */
+export function toLowS(signature: Uint8Array, curve: Curve): Uint8Array {
+  const { n } = ec.curveToParameter(curve)
+  const { r, s } = _splitSignature(signature, curve, "keypair/signature#toLowS")
+  if (s <= n >> 1n) {
+    return signature
+  }
+
+  const length = ec.fieldLength(curve)
+  const normalized = new Uint8Array(length * 2)
+  normalized.set(r, 0)
+  normalized.set(ec.bigIntToBytes(n - s, length), length)
+  return normalized
+}
+
+/**
+ * Split an IEEE P1363 signature into its `r` octets and its `s` component.
+ *
+ * @param {Uint8Array} signature The signature in IEEE P1363 format.
+ * @param {Curve} curve The elliptic curve of the signing key.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {object} The `r` octets and the `s` integer.
+ */
+function _splitSignature(signature: Uint8Array, curve: Curve, from: string): { r: Uint8Array; s: bigint } {
+  const length = ec.fieldLength(curve)
+  if (signature.length !== length * 2) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      from,
+      `The IEEE P1363 signature on the ${curve} curve must be ${length * 2} octets long!`,
+    )
+  }
+  return { r: signature.slice(0, length), s: ec.bytesToBigInt(signature.slice(length)) }
+}
+
+/**
+ * Encode an unsigned big-endian integer into the value octets of a DER `INTEGER` element, in the minimal two's
+ * complement form.
+ *
+ * @param {Uint8Array} bytes The unsigned big-endian integer.
+ *
+ * @returns {Uint8Array} The value octets.
+ */
+function _encodeInteger(bytes: Uint8Array): Uint8Array {
+  let start = 0
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start++
+  }
+
+  const stripped = bytes.slice(start)
+  return stripped[0] & 0x80 ? new Uint8Array([0x00, ...stripped]) : stripped
+}
+
+/**
+ * Decode the value octets of a DER `INTEGER` element into a non-negative big integer, rejecting negative and
+ * non-minimal encodings.
+ *
+ * @param {Uint8Array} bytes The value octets.
+ *
+ * @returns {bigint} The decoded integer.
+ */
+function _decodeInteger(bytes: Uint8Array): bigint {
+  if (
+    bytes.length === 0 || bytes[0] & 0x80 ||
+    (bytes.length > 1 && bytes[0] === 0x00 && !(bytes[1] & 0x80))
+  ) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "keypair/signature#_decodeInteger",
+      "The DER integer is empty, negative or not minimally encoded!",
+    )
+  }
+  return ec.bytesToBigInt(bytes)
+}
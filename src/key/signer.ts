@@ -0,0 +1,80 @@
+import { ImplementationError, ImplementationErrorCode, type URI } from "@herculas/vc-data-integrity"
+
+import type { ECKeypair } from "./keypair.ts"
+
+import * as subtle from "./subtle.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * An external signer, which produces signatures on behalf of a verification method whose private key is not directly
+ * accessible, e.g., a key held in an HSM or a KMS.
+ */
+export type Signer = {
+  /**
+   * The identifier of the verification method associated with the signing key.
+   */
+  id: URI
+
+  /**
+   * The JOSE name of the signature algorithm, i.e., `ES256`, `ES384` or `ES512`.
+   */
+  algorithm: string
+
+  /**
+   * Sign the data using the signing key. The data MUST be hashed using the digest algorithm indicated by `algorithm`
+   * before signing, and the signature MUST be returned in IEEE P1363 format, i.e., the concatenation of `r` and `s`.
+   *
+   * @param {Uint8Array} data The data to be signed.
+   *
+   * @returns {Promise<Uint8Array>} Resolve to the signature.
+   */
+  sign(data: Uint8Array): Promise<Uint8Array>
+}
+
+/**
+ * A signer backed by an in-memory elliptic curve private key.
+ */
+export class LocalSigner implements Signer {
+  /**
+   * The identifier of the verification method associated with the signing key.
+   */
+  readonly id: URI
+
+  /**
+   * The JOSE name of the signature algorithm.
+   */
+  readonly algorithm: string
+
+  /**
+   * The elliptic curve keypair holding the private key.
+   */
+  private readonly keypair: ECKeypair
+
+  /**
+   * @param {ECKeypair} keypair An elliptic curve keypair containing a private key and an identifier.
+   */
+  constructor(keypair: ECKeypair) {
+    if (!keypair.privateKey || !keypair.id) {
+      throw new ImplementationError(
+        ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+        "LocalSigner::constructor",
+        "The keypair should have a private key and an identifier!",
+      )
+    }
+
+    this.id = keypair.id
+    this.algorithm = SUITE_CONSTANT.SIGNATURE_ALGORITHM.get(keypair.curve)!
+    this.keypair = keypair
+  }
+
+  /**
+   * Sign the data using the in-memory private key.
+   *
+   * @param {Uint8Array} data The data to be signed.
+   *
+   * @returns {Promise<Uint8Array>} Resolve to the signature.
+   */
+  async sign(data: Uint8Array): Promise<Uint8Array> {
+    return await subtle.sign(this.keypair.privateKey!, data)
+  }
+}
@@ -0,0 +1,298 @@
+import { ImplementationError, ImplementationErrorCode } from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+import { curveToDigestAlgorithm } from "../utils/crypto.ts"
+import { decodeBase64url, encodeBase64url } from "../utils/base64url.ts"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+import * as ec from "../utils/ec.ts"
+
+/**
+ * A key on a curve not supported by the Web Crypto API. It carries the same read-only attributes as a `CryptoKey`, so
+ * that it could be held wherever a `CryptoKey` is expected, while its key material is kept in this module.
+ */
+export class SoftwareKey implements CryptoKey {
+  readonly type: KeyType
+  readonly extractable: boolean = true
+  readonly algorithm: EcKeyAlgorithm
+  readonly usages: Array<KeyUsage>
+
+  /**
+   * @param {KeyType} type The type of the key, either `public` or `private`.
+   * @param {Curve} curve The curve of the key.
+   * @param {Array<KeyUsage>} usages The usages of the key.
+   */
+  constructor(type: KeyType, curve: Curve, usages: Array<KeyUsage>) {
+    this.type = type
+    this.algorithm = Object.freeze({ name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve })
+    this.usages = [...usages]
+    Object.freeze(this)
+  }
+}
+
+/**
+ * The JSON Web Keys backing the `SoftwareKey` instances. The key objects handed out to the callers are opaque, just
+ * like `CryptoKey` instances, and the key materials never leave this module except through `exportJwk`.
+ */
+const _softwareKeys: WeakMap<SoftwareKey, JsonWebKey> = new WeakMap()
+
+/**
+ * Check whether a curve is implemented by this library rather than by the Web Crypto API.
+ *
+ * @param {string} curve The name of an elliptic curve.
+ *
+ * @returns {boolean} `true` if the keys on the curve are `SoftwareKey` instances.
+ */
+export function isSoftwareCurve(curve: string): boolean {
+  return SUITE_CONSTANT.SOFTWARE_CURVES.has(curve as Curve)
+}
+
+/**
+ * Generate an ECDSA keypair, using the Web Crypto API if the curve is supported by it.
+ *
+ * @param {Curve} curve The curve to use for the keypair.
+ *
+ * @returns {Promise<CryptoKeyPair>} Resolve to an ECDSA keypair.
+ */
+export async function generateKeypair(curve: Curve): Promise<CryptoKeyPair> {
+  if (!isSoftwareCurve(curve)) {
+    return await crypto.subtle.generateKey(
+      { name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve },
+      true,
+      ["sign", "verify"],
+    )
+  }
+
+  const scalar = _randomScalar(curve)
+  const length = ec.fieldLength(curve)
+  const { x, y } = ec.materialToPoint(ec.bigIntToBytes(scalar, length), curve)
+  const jwk = {
+    kty: SUITE_CONSTANT.JWK_TYPE,
+    crv: curve,
+    x: encodeBase64url(ec.bigIntToBytes(x, length)),
+    y: encodeBase64url(ec.bigIntToBytes(y, length)),
+  }
+
+  return {
+    publicKey: _createKey(jwk, ["verify"]),
+    privateKey: _createKey({ ...jwk, d: encodeBase64url(ec.bigIntToBytes(scalar, length)) }, ["sign"]),
+  }
+}
+
+/**
+ * Import an ECDSA key from a JSON Web Key, using the Web Crypto API if the curve is supported by it. The key is private
+ * if the `d` field is presented, and public otherwise.
+ *
+ * For curves implemented in this library, the `x` and `y` fields of a private key could be omitted, and are recovered
+ * from `d` in that case. If they are presented, they MUST match the public point of `d`.
+ *
+ * @param {JsonWebKey} jwk A JSON Web Key.
+ * @param {Array<KeyUsage>} usages The usages of the imported key.
+ *
+ * @returns {Promise<CryptoKey>} Resolve to the imported key.
+ */
+export async function importJwk(jwk: JsonWebKey, usages: Array<KeyUsage>): Promise<CryptoKey> {
+  const curve = jwk.crv as Curve
+  if (!isSoftwareCurve(curve)) {
+    return await crypto.subtle.importKey(
+      "jwk",
+      jwk,
+      { name: SUITE_CONSTANT.ALGORITHM, namedCurve: curve },
+      true,
+      usages,
+    )
+  }
+
+  const length = ec.fieldLength(curve)
+  let point: { x: bigint; y: bigint }
+  if (jwk.d) {
+    point = ec.materialToPoint(decodeBase64url(jwk.d), curve)
+  } else if (jwk.x && jwk.y) {
+    point = { x: ec.bytesToBigInt(decodeBase64url(jwk.x)), y: ec.bytesToBigInt(decodeBase64url(jwk.y)) }
+  } else {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/subtle#importJwk",
+      "The JWK object contains neither a private key nor a public point!",
+    )
+  }
+
+  const x = encodeBase64url(ec.bigIntToBytes(point.x, length))
+  const y = encodeBase64url(ec.bigIntToBytes(point.y, length))
+  if (!ec.isOnCurve(point, curve) || (jwk.x && jwk.x !== x) || (jwk.y && jwk.y !== y)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_IMPORT_ERROR,
+      "keypair/subtle#importJwk",
+      `The JWK object does not contain a valid ${curve} curve key!`,
+    )
+  }
+
+  const prepare = { kty: SUITE_CONSTANT.JWK_TYPE, crv: curve, x, y }
+  return _createKey(jwk.d ? { ...prepare, d: jwk.d } : prepare, usages)
+}
+
+/**
+ * Export an ECDSA key into a JSON Web Key, using the Web Crypto API if the key was created by it.
+ *
+ * @param {CryptoKey} key An ECDSA key.
+ *
+ * @returns {Promise<JsonWebKey>} Resolve to the exported JSON Web Key.
+ */
+export async function exportJwk(key: CryptoKey): Promise<JsonWebKey> {
+  if (!isSoftwareKey(key)) {
+    return await crypto.subtle.exportKey("jwk", key)
+  }
+  return { ..._softwareKeys.get(key)!, key_ops: [...key.usages], ext: key.extractable }
+}
+
+/**
+ * Check whether an ECDSA key is a `SoftwareKey` rather than a Web Crypto API key.
+ *
+ * @param {CryptoKey} key An ECDSA key.
+ *
+ * @returns {boolean} `true` if the key is not a Web Crypto API key.
+ */
+export function isSoftwareKey(key: CryptoKey): key is SoftwareKey {
+  return key instanceof SoftwareKey && _softwareKeys.has(key)
+}
+
+/**
+ * Sign the data with an ECDSA private key, using the hash algorithm appropriate to the curve of the key.
+ *
+ * By default, the nonce is drawn at random, so that signing the same data twice yields different signatures. If
+ * `deterministic` is set, the nonce is derived from the private key and the message digest as specified in RFC 6979,
+ * so that the same key and data always yield the same signature, which is still verifiable as an ordinary ECDSA
+ * signature. As the Web Crypto API offers no deterministic mode, such signatures are computed by the constant-time
+ * implementation of `@noble/curves`, which requires the private key to be extractable.
+ *
+ * @param {CryptoKey} key An ECDSA private key.
+ * @param {Uint8Array} data The data to be signed.
+ * @param {boolean} [deterministic] Whether to derive the nonce deterministically, default to `false`.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the signature in IEEE P1363 format.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6979
+ */
+export async function sign(key: CryptoKey, data: Uint8Array, deterministic: boolean = false): Promise<Uint8Array> {
+  const curve = (key.algorithm as EcKeyAlgorithm).namedCurve as Curve
+  const hash = curveToDigestAlgorithm(curve)
+  if (!isSoftwareKey(key) && !deterministic) {
+    return new Uint8Array(await crypto.subtle.sign({ name: SUITE_CONSTANT.ALGORITHM, hash }, key, data))
+  }
+
+  if (key.type !== "private" || !key.usages.includes("sign")) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "keypair/subtle#sign",
+      "The key is not a private key permitted for signing!",
+    )
+  }
+
+  const digest = new Uint8Array(await crypto.subtle.digest(hash, data))
+  return ec.signDigest(digest, await _privateMaterial(key), curve, deterministic)
+}
+
+/**
+ * Verify a signature with an ECDSA public key, using the hash algorithm appropriate to the curve of the key.
+ *
+ * @param {CryptoKey} key An ECDSA public key.
+ * @param {Uint8Array} signature The signature in IEEE P1363 format.
+ * @param {Uint8Array} data The data that was signed.
+ *
+ * @returns {Promise<boolean>} Resolve to `true` if the signature is valid.
+ */
+export async function verify(key: CryptoKey, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+  const curve = (key.algorithm as EcKeyAlgorithm).namedCurve as Curve
+  const hash = curveToDigestAlgorithm(curve)
+  if (!isSoftwareKey(key)) {
+    return await crypto.subtle.verify({ name: SUITE_CONSTANT.ALGORITHM, hash }, key, signature, data)
+  }
+
+  const jwk = _softwareKeys.get(key)!
+  const digest = new Uint8Array(await crypto.subtle.digest(hash, data))
+  const point = { x: ec.bytesToBigInt(decodeBase64url(jwk.x!)), y: ec.bytesToBigInt(decodeBase64url(jwk.y!)) }
+  return ec.verifyDigest(digest, signature, point, curve)
+}
+
+/**
+ * Derive a secret from an ECDSA private key using HKDF, with the hash algorithm appropriate to the curve of the key.
+ * Distinct `info` values yield independent secrets, none of which reveals the private key.
+ *
+ * @param {CryptoKey} key An extractable ECDSA private key.
+ * @param {Uint8Array} info The context information of the derivation.
+ * @param {number} length The length of the secret in octets.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the derived secret.
+ */
+export async function deriveSecret(key: CryptoKey, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const curve = (key.algorithm as EcKeyAlgorithm).namedCurve as Curve
+  const material = await _privateMaterial(key)
+  const baseKey = await crypto.subtle.importKey("raw", material, "HKDF", false, ["deriveBits"])
+  const params = {
+    name: "HKDF",
+    hash: curveToDigestAlgorithm(curve),
+    salt: new TextEncoder().encode(SUITE_CONSTANT.SECRET_DERIVATION_SALT),
+    info,
+  }
+  return new Uint8Array(await crypto.subtle.deriveBits(params, baseKey, length * 8))
+}
+
+/**
+ * Retrieve the private key material of an ECDSA private key, i.e., its private scalar in big-endian octets.
+ *
+ * @param {CryptoKey} key An extractable ECDSA private key.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the private key material.
+ */
+async function _privateMaterial(key: CryptoKey): Promise<Uint8Array> {
+  let jwk: JsonWebKey
+  try {
+    jwk = await exportJwk(key)
+  } catch (error) {
+    throw new ImplementationError(
+      ImplementationErrorCode.KEYPAIR_EXPORT_ERROR,
+      "keypair/subtle#_privateMaterial",
+      `The private key is not extractable: ${error}!`,
+    )
+  }
+  if (!jwk.d) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "keypair/subtle#_privateMaterial",
+      "The key is not a private key!",
+    )
+  }
+  return decodeBase64url(jwk.d)
+}
+
+/**
+ * Create a `SoftwareKey` backed by a JSON Web Key.
+ *
+ * @param {JsonWebKey} jwk A JSON Web Key, which is private if the `d` field is presented.
+ * @param {Array<KeyUsage>} usages The usages of the key.
+ *
+ * @returns {SoftwareKey} The key object.
+ */
+function _createKey(jwk: JsonWebKey, usages: Array<KeyUsage>): SoftwareKey {
+  const key = new SoftwareKey(jwk.d ? "private" : "public", jwk.crv as Curve, usages)
+  _softwareKeys.set(key, Object.freeze({ ...jwk }))
+  return key
+}
+
+/**
+ * Draw a uniformly random scalar in `[1, n - 1]` by rejection sampling, where `n` is the order of the curve.
+ *
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {bigint} The random scalar.
+ */
+function _randomScalar(curve: Curve): bigint {
+  const { n } = ec.curveToParameter(curve)
+  const length = ec.fieldLength(curve)
+  while (true) {
+    const scalar = ec.bytesToBigInt(crypto.getRandomValues(new Uint8Array(length)))
+    if (scalar > 0n && scalar < n) {
+      return scalar
+    }
+  }
+}
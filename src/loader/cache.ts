@@ -0,0 +1,51 @@
+import type { LoadDocumentCallback, URI } from "@herculas/vc-data-integrity"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+type RemoteDocument = Awaited<ReturnType<LoadDocumentCallback>>
+
+/**
+ * Wrap a document loader with a least recently used cache, so that contexts and controller documents fetched over the
+ * network are only loaded once within their time to live. Concurrent requests for the same URL share a single load,
+ * and failed loads are not cached.
+ *
+ * @param {LoadDocumentCallback} documentLoader The loader to cache the documents of.
+ * @param {object} [options] The maximum number of cached documents `maxSize`, default to 100, the time to live of each
+ * document `ttl` in milliseconds, default to one hour, and the `clock` reading the current time.
+ *
+ * @returns {LoadDocumentCallback} The caching document loader.
+ */
+export function cachingLoader(
+  documentLoader: LoadDocumentCallback,
+  options?: { maxSize?: number; ttl?: number; clock?: () => Date },
+): LoadDocumentCallback {
+  const maxSize = options?.maxSize ?? SUITE_CONSTANT.LOADER_CACHE_SIZE
+  const ttl = options?.ttl ?? SUITE_CONSTANT.LOADER_CACHE_TTL
+  const now = () => (options?.clock?.() ?? new Date()).getTime()
+  const cache = new Map<URI, { document: Promise<RemoteDocument>; expires: number }>()
+
+  return async (url: URI) => {
+    let entry = cache.get(url)
+    if (entry && entry.expires <= now()) {
+      cache.delete(url)
+      entry = undefined
+    }
+
+    if (entry) {
+      // move the entry to the most recently used end
+      cache.delete(url)
+    } else {
+      const loading = { document: documentLoader(url), expires: now() + ttl }
+      loading.document.catch(() => cache.get(url) === loading && cache.delete(url))
+      entry = loading
+    }
+    cache.set(url, entry)
+
+    // evict the least recently used entries
+    while (cache.size > maxSize) {
+      cache.delete(cache.keys().next().value!)
+    }
+
+    return structuredClone(await entry.document)
+  }
+}
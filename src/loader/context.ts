@@ -0,0 +1,56 @@
+import { type JsonLdDocument, type LoadDocumentCallback, loader, type URI } from "@herculas/vc-data-integrity"
+
+import * as CID_V1 from "./context/cid-v1.json" with { type: "json" }
+import * as CREDENTIALS_V2 from "./context/credentials-v2.json" with { type: "json" }
+import * as DATA_INTEGRITY_V2 from "./context/data-integrity-v2.json" with { type: "json" }
+import * as JWS_2020_V1 from "./context/jws-2020-v1.json" with { type: "json" }
+import * as MULTIKEY_V1 from "./context/multikey-v1.json" with { type: "json" }
+
+/**
+ * The JSON-LD contexts bundled with this library, kept byte for byte as published: the credentials v2, data integrity
+ * v2 and multikey v1 contexts from `@digitalbazaar/credentials-context@3.2.0`,
+ * `@digitalbazaar/data-integrity-context@2.0.1` and `@digitalbazaar/multikey-context@2.0.1`, the JWS 2020 v1 context
+ * from the w3id.org copy in `@veramo/credential-ld@7.0.1`, and the CID v1 context from the W3C. They are never fetched
+ * from the network, which also prevents a compromised host from altering the meaning of a signed document.
+ */
+const BUNDLED_CONTEXTS: Map<URI, JsonLdDocument> = new Map([
+  ["https://www.w3.org/ns/credentials/v2", CREDENTIALS_V2.default],
+  ["https://w3id.org/security/data-integrity/v2", DATA_INTEGRITY_V2.default],
+  ["https://w3id.org/security/multikey/v1", MULTIKEY_V1.default],
+  ["https://w3id.org/security/suites/jws-2020/v1", JWS_2020_V1.default],
+  ["https://www.w3.org/ns/cid/v1", CID_V1.default],
+])
+
+/**
+ * Wrap a document loader so that the bundled JSON-LD contexts, i.e., the credentials v2, data integrity v2, multikey
+ * v1, JWS 2020 v1 and CID v1 contexts, are served locally without any network access, while all other URLs are passed
+ * to the wrapped loader.
+ *
+ * @param {LoadDocumentCallback} [fallback] The loader for URLs not bundled, default to the basic loader.
+ *
+ * @returns {LoadDocumentCallback} The wrapped document loader.
+ */
+export function contextLoader(fallback: LoadDocumentCallback = loader.basic): LoadDocumentCallback {
+  return async (url: URI) => {
+    const context = BUNDLED_CONTEXTS.get(url)
+    if (!context) {
+      return await fallback(url)
+    }
+    return {
+      documentUrl: url,
+      document: structuredClone(context),
+    }
+  }
+}
+
+/**
+ * Let a suite operation load the bundled JSON-LD contexts locally, without relying on the document loader it is given,
+ * by wrapping that loader with `contextLoader()`.
+ *
+ * @param {object} options The options of the operation, holding the given document loader.
+ *
+ * @returns {object} A copy of the options, whose document loader serves the bundled contexts.
+ */
+export function withBundledContexts<T extends { documentLoader?: LoadDocumentCallback }>(options: T): T {
+  return { ...options, documentLoader: contextLoader(options.documentLoader) }
+}
@@ -1,8 +1,40 @@
 // Keypair and curves
 export { Curve } from "./constant/curve.ts"
 export { ECKeypair } from "./key/keypair.ts"
+export { publicKeyToRawPoint, rawPointToPublicKey } from "./key/core.ts"
+export { derToP1363, isDerSignature, isLowS, p1363ToDer, toLowS } from "./key/signature.ts"
+
+// Signers
+export { LocalSigner, type Signer } from "./key/signer.ts"
+
+// DID methods
+export { createDidJwk, didJwkLoader, resolveDidJwk } from "./did/jwk.ts"
+export { didKeyLoader, resolveDidKey } from "./did/key.ts"
+
+// Document loaders
+export { cachingLoader } from "./loader/cache.ts"
+export { contextLoader } from "./loader/context.ts"
 
 // Cryptosuites
 export { EcdsaJcs2019 } from "./suite/jcs.ts"
 export { EcdsaRdfc2019 } from "./suite/rdfc.ts"
 export { EcdsaSd2023 } from "./suite/sd.ts"
+export { EcdsaSecp256r1Signature2019 } from "./suite/legacy.ts"
+export { verify } from "./suite/registry.ts"
+
+// Enveloped credentials
+export { signCose, verifyCose } from "./envelope/cose.ts"
+export { signJose, verifyJose } from "./envelope/jose.ts"
+
+// Proof sets and chains
+export { addProof, type ProofSetVerification, type ProofVerification, toProofs } from "./suite/set.ts"
+
+// Verification results
+export type { CheckedVerification, VerificationCheck } from "./suite/result.ts"
+
+// Presentations
+export { signPresentation, verifyPresentation } from "./suite/presentation.ts"
+export type { ProofExpectation } from "./suite/purpose.ts"
+
+// Proof validity
+export type { ProofValidity } from "./suite/validity.ts"
@@ -1,14 +1,24 @@
-import { assert } from "@std/assert"
+import { ProcessingError, ProcessingErrorCode } from "@herculas/vc-data-integrity"
+
 import { isString, isUint8Array } from "../utils/guard.ts"
 import type { BaseProofValue, CompressedProofValue } from "./types.ts"
 
 export function assertBaseProofValue(components: unknown): BaseProofValue {
-  assert(Array.isArray(components) && components.length === 5)
-  assert(isUint8Array(components[0], 64) || isUint8Array(components[0], 96))
-  assert(isUint8Array(components[1], 35))
-  assert(isUint8Array(components[2], 32))
-  assert(Array.isArray(components[3]) && components[3].every((signature) => isUint8Array(signature, 64)))
-  assert(Array.isArray(components[4]) && components[4].every(isString))
+  const from = "selective/assert#assertBaseProofValue"
+  _assert(Array.isArray(components) && components.length === 5, from, "The base proof value must have 5 components.")
+  _assert(
+    isUint8Array(components[0], 64) || isUint8Array(components[0], 96) || isUint8Array(components[0], 132),
+    from,
+    "The base signature is malformed.",
+  )
+  _assert(isUint8Array(components[1], 35), from, "The ephemeral public key is malformed.")
+  _assert(isUint8Array(components[2], 32), from, "The HMAC key is malformed.")
+  _assert(
+    Array.isArray(components[3]) && components[3].every((signature) => isUint8Array(signature, 64)),
+    from,
+    "The statement signatures are malformed.",
+  )
+  _assert(Array.isArray(components[4]) && components[4].every(isString), from, "The mandatory pointers are malformed.")
   return {
     baseSignature: components[0],
     publicKey: components[1],
@@ -19,15 +29,30 @@ export function assertBaseProofValue(components: unknown): BaseProofValue {
 }
 
 export function assertCompressedProofValue(components: unknown): CompressedProofValue {
-  assert(Array.isArray(components) && components.length === 5)
-  assert(isUint8Array(components[0], 64) || isUint8Array(components[0], 96))
-  assert(isUint8Array(components[1], 35))
-  assert(Array.isArray(components[2]) && components[2].every((signature) => isUint8Array(signature)))
-  assert(
+  const from = "selective/assert#assertCompressedProofValue"
+  _assert(Array.isArray(components) && components.length === 5, from, "The derived proof value must have 5 components.")
+  _assert(
+    isUint8Array(components[0], 64) || isUint8Array(components[0], 96) || isUint8Array(components[0], 132),
+    from,
+    "The base signature is malformed.",
+  )
+  _assert(isUint8Array(components[1], 35), from, "The ephemeral public key is malformed.")
+  _assert(
+    Array.isArray(components[2]) && components[2].every((signature) => isUint8Array(signature)),
+    from,
+    "The statement signatures are malformed.",
+  )
+  _assert(
     components[3] instanceof Map &&
       components[3].entries().every(([key, value]) => Number.isInteger(key) && isUint8Array(value)),
+    from,
+    "The compressed label map is malformed.",
+  )
+  _assert(
+    Array.isArray(components[4]) && components[4].every(Number.isInteger),
+    from,
+    "The mandatory indexes are malformed.",
   )
-  assert(Array.isArray(components[4]) && components[4].every(Number.isInteger))
   return {
     baseSignature: components[0],
     publicKey: components[1],
@@ -36,3 +61,9 @@ export function assertCompressedProofValue(components: unknown): CompressedProof
     mandatoryIndexes: components[4],
   }
 }
+
+function _assert(condition: boolean, from: string, message: string): asserts condition {
+  if (!condition) {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, message)
+  }
+}
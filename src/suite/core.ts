@@ -15,13 +15,21 @@ import {
   type URNScheme,
 } from "@herculas/vc-data-integrity"
 
+import { decodeBase64url, encodeBase64url } from "../utils/base64url.ts"
 import { constructHasher, curveToDigestAlgorithm } from "../utils/crypto.ts"
 import { createDisclosureData, createVerifyData, serializeSignData } from "../selective/prepare.ts"
 import { Curve } from "../constant/curve.ts"
 import { ECKeypair } from "../key/keypair.ts"
 import { keyToMaterial, materialToMultibase, materialToPublicKey, multibaseToMaterial } from "../key/core.ts"
+import { derToP1363, isDerSignature, isLowS, toLowS } from "../key/signature.ts"
+import { fieldLength } from "../utils/ec.ts"
+import { retrieveAuthorizedMethod } from "./purpose.ts"
+import { checkKeyValidity, type ProofValidity } from "./validity.ts"
+import { recordCheck, runCheck, type VerificationCheck } from "./result.ts"
 import { serializeBaseProofValue, serializeDerivedProofValue } from "../selective/serialize.ts"
+import type { Signer } from "../key/signer.ts"
 
+import * as subtle from "../key/subtle.ts"
 import * as SUITE_CONSTANT from "../constant/suite.ts"
 
 /**
@@ -219,7 +227,7 @@ export function configJcs(options: { proof: Proof }): string {
  * ready to be provided as input to the proof serialization algorithm and proof verification algorithm.
  *
  * One must use the hash algorithm appropriate in security level to the curve used, i.e., for curve P-256 one uses
- * SHA-256 and for curve P-384 one uses SHA-384.
+ * SHA-256, for curve P-384 one uses SHA-384, and for curve P-521 one uses SHA-512.
  *
  * @param {string} transformedDocument A transformed data document to be hashed.
  * @param {string} canonicalProofConfig A canonical proof configuration.
@@ -260,7 +268,10 @@ export async function hashRdfcJcs(
  * Serialize a digital signature from a set of cryptographic hash data.
  *
  * @param {Uint8Array} hashData A cryptographic hash data to serialize.
- * @param {object} options A set of options to use when serializing the hash data.
+ * @param {object} options A set of options to use when serializing the hash data. If an external `signer` is provided,
+ * it is used in place of the private key associated with the verification method. If `deterministic` is set, the
+ * signature nonce is derived as specified in RFC 6979, so that the same key and hash data always yield the same proof.
+ * The signature is always normalized into the low-S form.
  *
  * @returns {Promise<Uint8Array>} Resolve to a serialized digital proof.
  *
@@ -273,6 +284,8 @@ export async function serializeRdfcJcs(
     curve: Curve
     proof: Proof
     documentLoader: LoadDocumentCallback
+    signer?: Signer
+    deterministic?: boolean
   },
 ): Promise<Uint8Array> {
   // Procedure:
@@ -284,27 +297,8 @@ export async function serializeRdfcJcs(
   //    exactly 64 bytes in size for a P-256 key, and 96 bytes in size for a P-384 key.
   // 3. Return `proofBytes` as the digital proof.
 
-  const method = await document.retrieveVerificationMethod(
-    options.proof.verificationMethod!,
-    new Set(),
-    { documentLoader: options.documentLoader },
-  )
-  const keypair = await ECKeypair.import(method, { curve: options.curve })
-  if (!keypair.privateKey) {
-    throw new ProcessingError(
-      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
-      "suite/core#serializeRdfcJcs",
-      "The specified verification method does not contain a private key.",
-    )
-  }
-
-  const algorithm = curveToDigestAlgorithm(options.curve)
-  const proofBytes = await crypto.subtle.sign(
-    { name: SUITE_CONSTANT.ALGORITHM, hash: algorithm },
-    keypair.privateKey,
-    hashData,
-  )
-  return new Uint8Array(proofBytes)
+  const proofBytes = await signData(hashData, options, "suite/core#serializeRdfcJcs")
+  return proofBytes
 }
 
 /**
@@ -312,7 +306,10 @@ export async function serializeRdfcJcs(
  *
  * @param {Uint8Array} hashData A cryptographic hash data to be verified.
  * @param {Uint8Array} proofBytes A digital proof to verify.
- * @param {object} options A set of options to use when verifying the digital proof.
+ * @param {object} options A set of options to use when verifying the digital proof. If `lenient` is set, an ASN.1 DER
+ * encoded signature is converted into the IEEE P1363 format before verification; otherwise it is rejected with a
+ * `MALFORMED_PROOF_ERROR`. If `requireLowS` is set, a signature in the high-S form is rejected as malleable. If
+ * `publicKey` is not specified, it is resolved from the verification method of the proof by `resolveVerificationKey`.
  *
  * @returns {Promise<boolean>} Resolve to a verification result.
  *
@@ -326,7 +323,10 @@ export async function verifyRdfcJcs(
     curve: Curve
     proof: Proof
     documentLoader: LoadDocumentCallback
-  },
+    publicKey?: CryptoKey
+    lenient?: boolean
+    requireLowS?: boolean
+  } & ProofValidity,
 ): Promise<boolean> {
   // Procedure:
   //
@@ -337,28 +337,217 @@ export async function verifyRdfcJcs(
   //    public key specified by `publicKeyBytes`.
   // 3. Return `verificationResult` as the verification result.
 
-  const method = await document.retrieveVerificationMethod(
-    options.proof.verificationMethod!,
-    new Set(),
-    { documentLoader: options.documentLoader },
-  )
-  const keypair = await ECKeypair.import(method, { curve: options.curve })
+  const publicKey = options.publicKey ??
+    (await resolveVerificationKey(options.proof, options, "suite/core#verifyRdfcJcs")).publicKey
+
+  const signature = _normalizeSignature(proofBytes, options.curve, options, "suite/core#verifyRdfcJcs")
+  return await subtle.verify(publicKey, signature, hashData)
+}
+
+/**
+ * Resolve the public key to verify a proof with. The verification method MUST be referenced by its controller document
+ * in the verification relationship matching the proof purpose, and its key MUST NOT have expired or been revoked before
+ * the proof was created; otherwise an `INVALID_VERIFICATION_METHOD` error is raised.
+ *
+ * @param {Proof} proof The proof to be verified.
+ * @param {object} options A set of options containing the document loader, the clock of the verifier, and optionally
+ * the curve the key MUST be on.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Promise<object>} Resolve to the public key and its curve.
+ */
+export async function resolveVerificationKey(
+  proof: Proof,
+  options: {
+    curve?: Curve
+    documentLoader: LoadDocumentCallback
+  } & ProofValidity,
+  from: string,
+): Promise<{ curve: Curve; publicKey: CryptoKey }> {
+  const method = await retrieveAuthorizedMethod(proof, options.documentLoader, from)
+
+  let keypair: ECKeypair
+  try {
+    keypair = await ECKeypair.import(method, { curve: options.curve })
+  } catch (error) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The verification method ${method.id} could not be imported: ${(error as Error).message}`,
+    )
+  }
+
   if (!keypair.publicKey) {
     throw new ProcessingError(
       ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
-      "suite/core#verifyRdfcJcs",
+      from,
       "The specified verification method does not contain a public key.",
     )
   }
+  checkKeyValidity(keypair, proof, options, from)
 
-  const algorithm = curveToDigestAlgorithm(options.curve)
-  const result = await crypto.subtle.verify(
-    { name: SUITE_CONSTANT.ALGORITHM, hash: algorithm },
-    keypair.publicKey,
-    proofBytes,
-    hashData,
-  )
-  return result
+  return { curve: keypair.curve, publicKey: keypair.publicKey }
+}
+
+/**
+ * Transform an unsecured input document secured by a legacy `EcdsaSecp256r1Signature2019` proof, by canonicalizing it
+ * with the RDF Dataset Canonicalization Algorithm, as in the `ecdsa-rdfc-2019` suite.
+ *
+ * @param {Credential} unsecuredDocument An unsecured input document to transform.
+ * @param {object} options A set of options to use when transforming the document. The proof type MUST be
+ * `EcdsaSecp256r1Signature2019`.
+ *
+ * @returns {Promise<string>} Resolve to a transformed data document.
+ *
+ * @see https://w3c-ccg.github.io/ld-proofs/#create-verify-hash-algorithm
+ */
+export async function transformLegacy(
+  unsecuredDocument: Credential,
+  options: {
+    proof: Proof
+    documentLoader: LoadDocumentCallback
+  },
+): Promise<string> {
+  if (options.proof.type !== SUITE_CONSTANT.LEGACY_PROOF_TYPE) {
+    throw new ProcessingError(
+      ProcessingErrorCode.PROOF_TRANSFORMATION_ERROR,
+      "suite/core#transformLegacy",
+      "The proof type is not supported.",
+    )
+  }
+
+  return await rdfc.normalize(unsecuredDocument, {
+    algorithm: "URDNA2015",
+    format: "application/n-quads",
+    documentLoader: options.documentLoader,
+  })
+}
+
+/**
+ * Generate the canonical proof options of a legacy `EcdsaSecp256r1Signature2019` proof, i.e., the proof without its
+ * `jws` value, within the context of the unsecured document.
+ *
+ * @param {Credential} unsecuredDocument An unsecured input document.
+ * @param {object} options A set of options containing the proof and the document loader.
+ *
+ * @returns {Promise<string>} Resolve to the canonical proof options.
+ *
+ * @see https://w3c-ccg.github.io/ld-proofs/#create-verify-hash-algorithm
+ */
+export async function configLegacy(
+  unsecuredDocument: Credential,
+  options: {
+    proof: Proof
+    documentLoader: LoadDocumentCallback
+  },
+): Promise<string> {
+  const proofConfig: Proof & { jws?: string } = structuredClone(options.proof)
+  delete proofConfig.jws
+  delete proofConfig.proofValue
+
+  if (proofConfig.type !== SUITE_CONSTANT.LEGACY_PROOF_TYPE) {
+    throw new ProcessingError(
+      ProcessingErrorCode.PROOF_GENERATION_ERROR,
+      "suite/core#configLegacy",
+      "The proof type is not supported.",
+    )
+  }
+
+  if (proofConfig.created && !Date.parse(proofConfig.created)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.PROOF_GENERATION_ERROR,
+      "suite/core#configLegacy",
+      "The proof creation date is not a valid datetime.",
+    )
+  }
+
+  proofConfig["@context"] = unsecuredDocument["@context"]
+
+  return await rdfc.normalize(proofConfig, {
+    algorithm: "URDNA2015",
+    format: "application/n-quads",
+    documentLoader: options.documentLoader,
+  })
+}
+
+/**
+ * Sign the hash data of a legacy `EcdsaSecp256r1Signature2019` proof as a detached JSON Web Signature with an
+ * unencoded payload, where the protected header is `{"alg":"ES256","b64":false,"crit":["b64"]}` and the payload
+ * `hashData` is left out of the serialization.
+ *
+ * @param {Uint8Array} hashData The concatenated SHA-256 hashes of the canonical proof options and document.
+ * @param {object} options A set of options to use when signing, as accepted by `serializeRdfcJcs`.
+ *
+ * @returns {Promise<string>} Resolve to the detached JWS, in the form `<header>..<signature>`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7797
+ */
+export async function serializeLegacy(
+  hashData: Uint8Array,
+  options: {
+    curve: Curve
+    proof: Proof
+    documentLoader: LoadDocumentCallback
+    signer?: Signer
+    deterministic?: boolean
+  },
+): Promise<string> {
+  const header = encodeBase64url(new TextEncoder().encode(JSON.stringify(SUITE_CONSTANT.LEGACY_JWS_HEADER)))
+  const signingInput = format.concatenate(new TextEncoder().encode(`${header}.`), hashData)
+  const signature = await signData(signingInput, options, "suite/core#serializeLegacy")
+  return `${header}..${encodeBase64url(signature)}`
+}
+
+/**
+ * Verify the detached JSON Web Signature of a legacy `EcdsaSecp256r1Signature2019` proof over its hash data. The
+ * protected header MUST declare the `ES256` algorithm and the unencoded payload option; otherwise a
+ * `MALFORMED_PROOF_ERROR` is raised.
+ *
+ * @param {Uint8Array} hashData The concatenated SHA-256 hashes of the canonical proof options and document.
+ * @param {string} jws The detached JWS of the proof.
+ * @param {object} options The public key to verify with, and whether to accept DER encoded or high-S signatures.
+ *
+ * @returns {Promise<boolean>} Resolve to a verification result.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc7797
+ */
+export async function verifyLegacy(
+  hashData: Uint8Array,
+  jws: string,
+  options: {
+    publicKey: CryptoKey
+    lenient?: boolean
+    requireLowS?: boolean
+  },
+): Promise<boolean> {
+  const from = "suite/core#verifyLegacy"
+  const [header, payload, signature, ...rest] = jws.split(".")
+  let decodedHeader: { alg?: string; b64?: boolean; crit?: Array<string> }
+  let proofBytes: Uint8Array
+  try {
+    decodedHeader = JSON.parse(new TextDecoder().decode(decodeBase64url(header)))
+    proofBytes = decodeBase64url(signature)
+  } catch {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The JWS could not be decoded.")
+  }
+
+  if (payload !== "" || signature === undefined || rest.length > 0) {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The JWS is not a detached JWS.")
+  }
+  if (
+    decodedHeader.alg !== SUITE_CONSTANT.LEGACY_JWS_HEADER.alg || decodedHeader.b64 !== false ||
+    !decodedHeader.crit?.includes("b64")
+  ) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+      from,
+      "The JWS header must declare the ES256 algorithm with an unencoded payload.",
+    )
+  }
+
+  const signingInput = format.concatenate(new TextEncoder().encode(`${header}.`), hashData)
+  const normalized = _normalizeSignature(proofBytes, Curve.P256, options, from)
+  return await subtle.verify(options.publicKey, normalized, signingInput)
 }
 
 /**
@@ -369,7 +558,9 @@ export async function verifyRdfcJcs(
  * @param {object} options A set of options to use when transforming the document. The transformation options MUST
  * contain a type identifier `type` for the cryptographic suite, a cryptosuite identifier `cryptosuite`, and a
  * verification method `verificationMethod`. The transformation options MUST contain an array of mandatory JSON pointers
- * `mandatoryPointers`, and MAY contain additional options, such as a JSON-LD document loader.
+ * `mandatoryPointers`, and MAY contain additional options, such as a JSON-LD document loader. If `deterministic` is
+ * set, the HMAC key is derived from the private key associated with the verification method and the document, instead
+ * of being generated at random.
  *
  * @returns {Promise<TransformedDocument>} Resolve to a transformed data document, which is a map containing the
  * mandatory pointers, mandatory revealed values, non-mandatory revealed values, and the HMAC key.
@@ -385,6 +576,8 @@ export async function transformSd(
     documentLoader: LoadDocumentCallback
     urnScheme?: URNScheme
     randomString?: string
+    signer?: Signer
+    deterministic?: boolean
   },
 ): Promise<TransformedDocument> {
   // Procedure:
@@ -419,7 +612,16 @@ export async function transformSd(
   }
 
   const algorithm = curveToDigestAlgorithm(options.curve)
-  const rawHmacKey = crypto.getRandomValues(new Uint8Array(32))
+  const rawHmacKey = options.deterministic
+    ? await subtle.deriveSecret(
+      await _privateKey(options, "suite/core#transformSd"),
+      format.concatenate(
+        new TextEncoder().encode(SUITE_CONSTANT.HMAC_KEY_DERIVATION_INFO),
+        await constructHasher(options.curve)(new TextEncoder().encode(jcs.canonize(unsecuredDocument))),
+      ),
+      32,
+    )
+    : crypto.getRandomValues(new Uint8Array(32))
   const hmacKey = await crypto.subtle.importKey(
     "raw",
     rawHmacKey,
@@ -562,7 +764,10 @@ export async function hashSd(
  *
  * @param {HashData} hashData A cryptographic hash data to serialize.
  * @param {object} options A set of options to use when serializing the hash data. The proof options MUST contain a type
- * identifier `type` for the cryptographic suite, and MAY contain a cryptosuite identifier `cryptosuite`.
+ * identifier `type` for the cryptographic suite, and MAY contain a cryptosuite identifier `cryptosuite`. If
+ * `deterministic` is set, the proof-scoped keypair is derived from the private key associated with the verification
+ * method and the hash data, and every signature nonce is derived as specified in RFC 6979. All signatures are
+ * normalized into the low-S form.
  *
  * @returns {Promise<string>} Resolve to a serialized digital proof.
  *
@@ -574,6 +779,8 @@ export async function serializeSd(
     curve: Curve
     proof: Proof
     documentLoader: LoadDocumentCallback
+    signer?: Signer
+    deterministic?: boolean
   },
 ): Promise<string> {
   // Procedure:
@@ -604,17 +811,27 @@ export async function serializeSd(
   const { proofHash, mandatoryHash, mandatoryPointers, nonMandatory, hmacKey } = hashData
 
   const localCurve = Curve.P256
-  const localAlgorithm = curveToDigestAlgorithm(localCurve)
-  const proofScopedKeyPair = new ECKeypair(localCurve)
-  await proofScopedKeyPair.initialize()
+  let proofScopedKeyPair: ECKeypair
+  if (options.deterministic) {
+    const info = format.concatenate(
+      new TextEncoder().encode(SUITE_CONSTANT.PROOF_SCOPED_KEY_DERIVATION_INFO),
+      proofHash,
+      mandatoryHash,
+    )
+    const seed = await subtle.deriveSecret(await _privateKey(options, "suite/core#serializeSd"), info, 32)
+    proofScopedKeyPair = await ECKeypair.fromSeed(seed, localCurve)
+  } else {
+    proofScopedKeyPair = new ECKeypair(localCurve)
+    await proofScopedKeyPair.initialize()
+  }
 
   const signatures = await Promise.all([...nonMandatory.values()].map(async (nQuad) => {
-    const signature = await crypto.subtle.sign(
-      { name: SUITE_CONSTANT.ALGORITHM, hash: localAlgorithm },
+    const signature = await subtle.sign(
       proofScopedKeyPair.privateKey!,
       new TextEncoder().encode(nQuad),
+      options.deterministic,
     )
-    return new Uint8Array(signature)
+    return toLowS(signature, localCurve)
   }))
 
   const publicKeyMaterial = await keyToMaterial(proofScopedKeyPair.publicKey!, "public", localCurve)
@@ -622,25 +839,7 @@ export async function serializeSd(
   const publicKey = multi.base58btc.decode(publicKeyMultibase)
   const toSign = serializeSignData(proofHash, publicKey, mandatoryHash)
 
-  const method = await document.retrieveVerificationMethod(options.proof.verificationMethod!, new Set(), {
-    documentLoader: options.documentLoader,
-  })
-  const keypair = await ECKeypair.import(method, { curve: options.curve })
-  if (!keypair.privateKey) {
-    throw new ProcessingError(
-      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
-      "suite/core#serializeSd",
-      "The specified verification method does not contain a private key.",
-    )
-  }
-
-  const algorithm = curveToDigestAlgorithm(options.curve)
-  const baseSignatureBytes = await crypto.subtle.sign(
-    { name: SUITE_CONSTANT.ALGORITHM, hash: algorithm },
-    keypair.privateKey,
-    toSign,
-  )
-  const baseSignature = new Uint8Array(baseSignatureBytes)
+  const baseSignature = await signData(toSign, options, "suite/core#serializeSd")
 
   return serializeBaseProofValue({
     baseSignature,
@@ -699,11 +898,19 @@ export async function deriveSd(
 }
 
 /**
- * Verify a selective disclosed signature.
+ * Verify a selective disclosed signature. Each step of the verification is reported as a separate check: the
+ * resolution of the verification key, the parsing of the proof value, the signature count, the base signature, and each
+ * statement signature in the order of the non-mandatory statements. A check depending on a failed one is skipped.
  *
  * @param {JsonLdObject} unsecuredDocument An unsecured input document to verify the selective disclosed signature.
  * @param {Proof} proof A selective disclosed signature to verify.
- * @param {object} options A set of options to use when verifying the selective disclosed signature.
+ * @param {object} options A set of options to use when verifying the selective disclosed signature. If `lenient` is
+ * set, ASN.1 DER encoded base and statement signatures are converted into the IEEE P1363 format before verification;
+ * otherwise they are rejected with a `MALFORMED_PROOF_ERROR`. If `requireLowS` is set, any signature in the high-S form
+ * is rejected as malleable. The verification method MUST be authorized by its controller for the proof purpose, and its
+ * key MUST be neither expired nor revoked at the creation time of the proof.
+ *
+ * @returns {Promise<Array<VerificationCheck>>} Resolve to the checks performed.
  *
  * @see https://www.w3.org/TR/vc-di-ecdsa/#verify-derived-proof-ecdsa-sd-2023
  */
@@ -711,10 +918,12 @@ export async function verifySd(
   unsecuredDocument: JsonLdObject,
   proof: Proof,
   options: {
-    curve: Curve
+    curve?: Curve
     documentLoader: LoadDocumentCallback
-  },
-): Promise<boolean> {
+    lenient?: boolean
+    requireLowS?: boolean
+  } & ProofValidity,
+): Promise<Array<VerificationCheck>> {
   // Procedure:
   //
   // 2. Initialize `baseSignature`, `proofHash`, `publicKey`, `signatures`, `nonMandatory`, and `mandatoryHash` to the
@@ -740,71 +949,248 @@ export async function verifySd(
   //
   // 9. Return `verified` as the verification result.
 
-  const {
-    baseSignature,
-    proofHash,
-    publicKey,
-    signatures,
-    nonMandatory,
-    mandatoryHash,
-  } = await createVerifyData(unsecuredDocument, proof, options)
+  const from = "suite/core#verifySd"
+  const checks: Array<VerificationCheck> = []
 
-  if (signatures.length !== nonMandatory.length) {
-    throw new ProcessingError(
+  const key = await runCheck(
+    checks,
+    "verificationMethod",
+    ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+    from,
+    () => resolveVerificationKey(proof, options, from),
+  )
+  if (!key) {
+    return checks
+  }
+
+  const localCurve = Curve.P256
+  const verifyData = await runCheck(checks, "proofValue", ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, async () => {
+    const verifyData = await createVerifyData(unsecuredDocument, proof, { ...options, curve: key.curve })
+    const publicKeyMaterial = multibaseToMaterial(multi.base58btc.encode(verifyData.publicKey), "public", localCurve)
+    return { ...verifyData, publicCryptoKey: await materialToPublicKey(publicKeyMaterial, localCurve) }
+  })
+  if (!verifyData) {
+    return checks
+  }
+
+  const { baseSignature, proofHash, publicKey, signatures, nonMandatory, mandatoryHash, publicCryptoKey } = verifyData
+  const counted = recordCheck(
+    checks,
+    "signatureCount",
+    signatures.length === nonMandatory.length ? [] : [
+      new ProcessingError(
+        ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+        from,
+        `The signature count ${signatures.length} does not match the non-mandatory message count ${nonMandatory.length}.`,
+      ),
+    ],
+  )
+
+  const toVerify = serializeSignData(proofHash, publicKey, mandatoryHash)
+  await runCheck(
+    checks,
+    "baseSignature",
+    ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+    from,
+    async () =>
+      await subtle.verify(key.publicKey, _normalizeSignature(baseSignature, key.curve, options, from), toVerify),
+  )
+
+  if (!counted) {
+    return checks
+  }
+
+  const localAlgorithm = curveToDigestAlgorithm(localCurve)
+  for (const [index, signature] of signatures.entries()) {
+    await runCheck(
+      checks,
+      `statementSignature[${index}]`,
       ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
-      "suite/core#verifySd",
-      `The signature count ${signatures.length} does not match the non-mandatory message count ${nonMandatory.length}.`,
+      from,
+      async () =>
+        await crypto.subtle.verify(
+          { name: SUITE_CONSTANT.ALGORITHM, hash: localAlgorithm },
+          publicCryptoKey,
+          _normalizeSignature(signature, localCurve, options, from),
+          new TextEncoder().encode(nonMandatory[index]),
+        ),
+    )
+  }
+
+  return checks
+}
+
+/**
+ * Determine the elliptic curve to use for a proof. If the curve is not explicitly specified, it is inferred from the
+ * key material of the verification method referenced by the proof.
+ *
+ * @param {object} options A set of options containing the proof, the document loader, and optionally the curve.
+ *
+ * @returns {Promise<Curve>} Resolve to the elliptic curve used by the proof.
+ */
+export async function resolveCurve(
+  options: {
+    curve?: Curve
+    proof: Proof
+    documentLoader: LoadDocumentCallback
+    signer?: Signer
+  },
+): Promise<Curve> {
+  if (options.curve) {
+    return options.curve
+  }
+
+  if (options.signer) {
+    for (const [curve, algorithm] of SUITE_CONSTANT.SIGNATURE_ALGORITHM) {
+      if (algorithm === options.signer.algorithm) {
+        return curve
+      }
+    }
+    throw new ProcessingError(
+      ProcessingErrorCode.PROOF_GENERATION_ERROR,
+      "suite/core#resolveCurve",
+      `The signer algorithm ${options.signer.algorithm} is not supported.`,
     )
   }
 
   const method = await document.retrieveVerificationMethod(
-    proof.verificationMethod!,
+    options.proof.verificationMethod!,
+    new Set(),
+    { documentLoader: options.documentLoader },
+  )
+  const keypair = await ECKeypair.import(method)
+  return keypair.curve
+}
+
+/**
+ * Digitally sign the data, either with the external signer if it is provided, or with the private key associated with
+ * the verification method of the proof. The signature is normalized into the low-S form, so that each proof has a
+ * single valid encoding.
+ *
+ * @param {Uint8Array} data The data to be signed.
+ * @param {object} options A set of options to use when signing the data.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Promise<Uint8Array>} Resolve to the signature.
+ */
+export async function signData(
+  data: Uint8Array,
+  options: {
+    curve: Curve
+    proof: Proof
+    documentLoader: LoadDocumentCallback
+    signer?: Signer
+    deterministic?: boolean
+  },
+  from: string,
+): Promise<Uint8Array> {
+  if (options.signer && !options.deterministic) {
+    if (options.signer.id !== options.proof.verificationMethod) {
+      throw new ProcessingError(
+        ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+        from,
+        "The signer does not match the verification method of the proof.",
+      )
+    }
+    if (options.signer.algorithm !== SUITE_CONSTANT.SIGNATURE_ALGORITHM.get(options.curve)) {
+      throw new ProcessingError(
+        ProcessingErrorCode.PROOF_GENERATION_ERROR,
+        from,
+        `The signer algorithm ${options.signer.algorithm} does not match the ${options.curve} curve.`,
+      )
+    }
+    return toLowS(await options.signer.sign(data), options.curve)
+  }
+
+  const privateKey = await _privateKey(options, from)
+  return toLowS(await subtle.sign(privateKey, data, options.deterministic), options.curve)
+}
+
+/**
+ * Retrieve the private key associated with the verification method of the proof. The deterministic mode is not
+ * available with an external signer, since the nonces are derived from the private key itself.
+ *
+ * @param {object} options A set of options containing the proof, the curve, and the document loader.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Promise<CryptoKey>} Resolve to the private key.
+ */
+async function _privateKey(
+  options: {
+    curve: Curve
+    proof: Proof
+    documentLoader: LoadDocumentCallback
+    signer?: Signer
+    deterministic?: boolean
+  },
+  from: string,
+): Promise<CryptoKey> {
+  if (options.signer && options.deterministic) {
+    throw new ProcessingError(
+      ProcessingErrorCode.PROOF_GENERATION_ERROR,
+      from,
+      "The deterministic mode requires the private key, and is not supported with an external signer.",
+    )
+  }
+
+  const method = await document.retrieveVerificationMethod(
+    options.proof.verificationMethod!,
     new Set(),
     { documentLoader: options.documentLoader },
   )
   const keypair = await ECKeypair.import(method, { curve: options.curve })
-  if (!keypair.publicKey) {
+  if (!keypair.privateKey) {
     throw new ProcessingError(
       ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
-      "suite/core#verifySd",
-      "The specified verification method does not contain a public key.",
+      from,
+      "The specified verification method does not contain a private key.",
     )
   }
 
-  const algorithm = curveToDigestAlgorithm(options.curve)
-  const toVerify = serializeSignData(proofHash, publicKey, mandatoryHash)
+  return keypair.privateKey
+}
 
-  let verified: boolean = true
-  const verificationCheck = await crypto.subtle.verify(
-    { name: SUITE_CONSTANT.ALGORITHM, hash: algorithm },
-    keypair.publicKey,
-    baseSignature,
-    toVerify,
-  )
-  if (!verificationCheck) {
-    verified = false
+/**
+ * Bring a signature into the IEEE P1363 format expected by the verification algorithm. An ASN.1 DER encoded signature,
+ * as produced by OpenSSL or Java based issuers, is converted in the lenient mode, and rejected otherwise. If the low-S
+ * form is required, a high-S signature is rejected as well.
+ *
+ * @param {Uint8Array} signature The signature to normalize.
+ * @param {Curve} curve The elliptic curve of the verification key.
+ * @param {object} options Whether to accept DER encoded signatures, and whether to require the low-S form.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Uint8Array} The signature in IEEE P1363 format.
+ */
+function _normalizeSignature(
+  signature: Uint8Array,
+  curve: Curve,
+  options: {
+    lenient?: boolean
+    requireLowS?: boolean
+  },
+  from: string,
+): Uint8Array {
+  if (isDerSignature(signature, curve)) {
+    if (!options.lenient) {
+      throw new ProcessingError(
+        ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+        from,
+        "The signature is ASN.1 DER encoded, which is only accepted in the lenient verification mode.",
+      )
+    }
+    signature = derToP1363(signature, curve)
   }
 
-  const localCurve = Curve.P256
-  const localAlgorithm = curveToDigestAlgorithm(localCurve)
-  const publicKeyMultibase = multi.base58btc.encode(publicKey)
-  const publicKeyMaterial = multibaseToMaterial(publicKeyMultibase, "public", localCurve)
-  const publicCryptoKey = await materialToPublicKey(publicKeyMaterial, localCurve)
-
-  const verificationChecks = await Promise.all(signatures.map((signature, index) =>
-    crypto.subtle.verify(
-      { name: SUITE_CONSTANT.ALGORITHM, hash: localAlgorithm },
-      publicCryptoKey,
-      signature,
-      new TextEncoder().encode(nonMandatory[index]),
+  // a signature of unexpected length is left to the verification algorithm, which rejects it anyway
+  if (options.requireLowS && signature.length === fieldLength(curve) * 2 && !isLowS(signature, curve)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+      from,
+      "The signature is not in the low-S form, and is rejected as malleable.",
     )
-  ))
-
-  if (verificationChecks.includes(false)) {
-    verified = false
   }
-
-  return verified
+  return signature
 }
 
 type TransformedDocument = {
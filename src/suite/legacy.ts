@@ -0,0 +1,191 @@
+import {
+  type Credential,
+  Cryptosuite,
+  type JsonLdDocument,
+  type LoadDocumentCallback,
+  ProcessingErrorCode,
+  type Proof,
+} from "@herculas/vc-data-integrity"
+
+import { Curve } from "../constant/curve.ts"
+import type { Signer } from "../key/signer.ts"
+import { withBundledContexts } from "../loader/context.ts"
+
+import { checkExpectation, type ProofExpectation } from "./purpose.ts"
+import { type ProofSetVerification, toSecuredInput, verifyProofs } from "./set.ts"
+import { checkValidity, type ProofValidity } from "./validity.ts"
+import { type CheckedVerification, conclude, recordCheck, runCheck, type VerificationCheck } from "./result.ts"
+
+import * as core from "./core.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * The legacy `EcdsaSecp256r1Signature2019` Linked Data Signatures suite, which predates Data Integrity. The input
+ * document and the proof options are canonicalized using the RDF Dataset Canonicalization algorithm as in the
+ * `ecdsa-rdfc-2019` suite, and their SHA-256 hashes are signed with a P-256 key into a detached JSON Web Signature with
+ * an unencoded payload, carried in the `jws` property of the proof.
+ *
+ * Legacy proofs carry no `cryptosuite` property, and are identified by their proof type instead, which is therefore
+ * used as the name of this suite. New credentials should be secured by the `ecdsa-rdfc-2019` suite; this suite is meant
+ * for verifying, and occasionally reissuing, credentials secured before Data Integrity was published.
+ *
+ * @see https://w3c-ccg.github.io/ld-proofs/
+ */
+export class EcdsaSecp256r1Signature2019 extends Cryptosuite {
+  /**
+   * The name of the cryptographic suite.
+   *
+   * In this suite, this value is the proof type `EcdsaSecp256r1Signature2019`.
+   */
+  static override readonly cryptosuite: string = SUITE_CONSTANT.LEGACY_PROOF_TYPE
+
+  /**
+   * Create a legacy `EcdsaSecp256r1Signature2019` proof given an unsecured data document. The proof type MUST be
+   * `EcdsaSecp256r1Signature2019`, and the verification method MUST hold a P-256 key.
+   *
+   * @param {JsonLdDocument} unsecuredDocument An unsecured data document to create a proof for.
+   * @param {object} options A set of options to use when creating the proof. If `deterministic` is set, the signature
+   * nonce is derived as specified in RFC 6979.
+   *
+   * @returns {Promise<Proof>} Resolve to a proof carrying a detached JWS in its `jws` property.
+   */
+  static override async createProof(
+    unsecuredDocument: JsonLdDocument,
+    options: {
+      proof: Proof
+      documentLoader: LoadDocumentCallback
+      signer?: Signer
+      deterministic?: boolean
+    },
+  ): Promise<Proof> {
+    options = withBundledContexts(options)
+    const proof = structuredClone(options.proof)
+    delete proof.proofValue
+
+    const unsecuredCredential = toSecuredInput(
+      unsecuredDocument as Credential,
+      proof,
+      ProcessingErrorCode.PROOF_GENERATION_ERROR,
+      "EcdsaSecp256r1Signature2019::createProof",
+    )
+    const canonicalProofConfig = await core.configLegacy(unsecuredCredential, { ...options, proof })
+    const canonicalDocument = await core.transformLegacy(unsecuredCredential, { ...options, proof })
+    const hashData = await core.hashRdfcJcs(canonicalDocument, canonicalProofConfig, { curve: Curve.P256 })
+    const jws = await core.serializeLegacy(hashData, { ...options, proof, curve: Curve.P256 })
+
+    return { ...proof, jws }
+  }
+
+  /**
+   * Verify the legacy `EcdsaSecp256r1Signature2019` proofs of a secured data document. If the document carries a proof
+   * set, every `EcdsaSecp256r1Signature2019` proof in it is verified, and the result of each proof is reported in
+   * `results`. Proofs of other suites are reported as not verified, and should be verified with `verify()`.
+   *
+   * @param {JsonLdDocument} securedDocument A secured data document to verify a proof for.
+   * @param {object} options A set of options to use when verifying the proof, with the same meaning as in the
+   * `ecdsa-rdfc-2019` suite. Legacy issuers commonly produced ASN.1 DER encoded or high-S signatures, which are only
+   * accepted in the `lenient` mode and without `requireLowS` respectively.
+   *
+   * @returns {Promise<ProofSetVerification>} Resolve to a verification result.
+   */
+  static override async verifyProof(
+    securedDocument: JsonLdDocument,
+    options:
+      & {
+        documentLoader: LoadDocumentCallback
+        lenient?: boolean
+        requireLowS?: boolean
+      }
+      & ProofExpectation
+      & ProofValidity,
+  ): Promise<ProofSetVerification> {
+    options = withBundledContexts(options)
+    return await verifyProofs(
+      securedDocument as Credential,
+      (unsecuredCredential, proof) => verifyLegacyProof(unsecuredCredential, proof, options),
+      "EcdsaSecp256r1Signature2019::verifyProof",
+      (proof) => proof.type === SUITE_CONSTANT.LEGACY_PROOF_TYPE,
+    )
+  }
+}
+
+/**
+ * Verify a single legacy `EcdsaSecp256r1Signature2019` proof over its input document. Unlike
+ * `EcdsaSecp256r1Signature2019.verifyProof()`, the bundled contexts are only served if the given loader is wrapped by
+ * `contextLoader()`.
+ *
+ * @param {Credential} unsecuredCredential The input document secured by the proof.
+ * @param {Proof} proof The proof to verify.
+ * @param {object} options A set of options to use when verifying the proof.
+ *
+ * @returns {Promise<CheckedVerification>} Resolve to a verification result, along with the outcome of each check.
+ */
+export async function verifyLegacyProof(
+  unsecuredCredential: Credential,
+  proof: Proof & { jws?: string },
+  options:
+    & {
+      documentLoader: LoadDocumentCallback
+      lenient?: boolean
+      requireLowS?: boolean
+    }
+    & ProofExpectation
+    & ProofValidity,
+): Promise<CheckedVerification> {
+  const from = "EcdsaSecp256r1Signature2019::verifyProof"
+  const checks: Array<VerificationCheck> = []
+  recordCheck(checks, "expectation", checkExpectation(proof, options, from))
+  recordCheck(checks, "validity", checkValidity(proof, options, from))
+
+  const jws = await runCheck(checks, "jws", ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, () => {
+    if (typeof proof.jws !== "string") {
+      throw new Error("The proof does not contain a JWS.")
+    }
+    return proof.jws
+  })
+  if (!jws) {
+    return conclude(checks, unsecuredCredential)
+  }
+
+  const key = await runCheck(
+    checks,
+    "verificationMethod",
+    ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+    from,
+    () => core.resolveVerificationKey(proof, { ...options, curve: Curve.P256 }, from),
+  )
+  if (!key) {
+    return conclude(checks, unsecuredCredential)
+  }
+
+  const transformOptions = { proof, documentLoader: options.documentLoader }
+  const hashData = await runCheck(
+    checks,
+    "transformation",
+    ProcessingErrorCode.PROOF_TRANSFORMATION_ERROR,
+    from,
+    async () => {
+      const canonicalDocument = await core.transformLegacy(unsecuredCredential, transformOptions)
+      const canonicalProofConfig = await core.configLegacy(unsecuredCredential, transformOptions)
+      return await core.hashRdfcJcs(canonicalDocument, canonicalProofConfig, { curve: Curve.P256 })
+    },
+  )
+  if (!hashData) {
+    return conclude(checks, unsecuredCredential)
+  }
+
+  await runCheck(
+    checks,
+    "signature",
+    ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+    from,
+    () =>
+      core.verifyLegacy(hashData, jws, {
+        publicKey: key.publicKey,
+        lenient: options.lenient,
+        requireLowS: options.requireLowS,
+      }),
+  )
+
+  return conclude(checks, unsecuredCredential)
+}
@@ -0,0 +1,83 @@
+import type { Credential, JsonLdDocument, LoadDocumentCallback, Proof } from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+import type { EcdsaJcs2019 } from "./jcs.ts"
+import type { EcdsaRdfc2019 } from "./rdfc.ts"
+import type { Signer } from "../key/signer.ts"
+import { addProof, type ProofSetVerification } from "./set.ts"
+import type { ProofValidity } from "./validity.ts"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * Secure a verifiable presentation for a specific verifier. The proof is created with the `authentication` purpose, and
+ * binds the `challenge` and the optional `domain` provided by the verifier, so that the presentation could not be
+ * replayed in another session or to another verifier.
+ *
+ * @param {typeof EcdsaRdfc2019 | typeof EcdsaJcs2019} suite The cryptographic suite used to create the proof.
+ * @param {JsonLdDocument} presentation An unsecured verifiable presentation.
+ * @param {object} options A set of options to use when creating the proof. The `proof` options MUST contain the
+ * verification method of the holder, and `challenge` MUST be the value provided by the verifier.
+ *
+ * @returns {Promise<Credential>} Resolve to the secured presentation.
+ *
+ * @see https://www.w3.org/TR/vc-data-model-2.0/#presentations
+ */
+export async function signPresentation(
+  suite: typeof EcdsaRdfc2019 | typeof EcdsaJcs2019,
+  presentation: JsonLdDocument,
+  options: {
+    proof: Proof
+    challenge: string
+    domain?: string | Array<string>
+    documentLoader: LoadDocumentCallback
+    curve?: Curve
+    signer?: Signer
+    deterministic?: boolean
+  },
+): Promise<Credential> {
+  const proof: Proof = {
+    ...structuredClone(options.proof),
+    proofPurpose: SUITE_CONSTANT.PRESENTATION_PROOF_PURPOSE,
+    challenge: options.challenge,
+  }
+  if (options.domain !== undefined) {
+    proof.domain = options.domain
+  }
+
+  const created = await suite.createProof(presentation, { ...options, proof })
+  return addProof(presentation, created)
+}
+
+/**
+ * Verify a verifiable presentation secured by `signPresentation`. Every proof in the presentation MUST have the
+ * `authentication` purpose and carry the expected `challenge`, and the expected `domain` if specified; otherwise the
+ * verification fails with an `INVALID_CHALLENGE_ERROR`, an `INVALID_DOMAIN_ERROR`, or a
+ * `MISMATCHED_PROOF_PURPOSE_ERROR`.
+ *
+ * @param {typeof EcdsaRdfc2019 | typeof EcdsaJcs2019} suite The cryptographic suite used to verify the proof.
+ * @param {JsonLdDocument} presentation A secured verifiable presentation.
+ * @param {object} options A set of options to use when verifying the proof, including the `challenge` issued by the
+ * verifier and its `domain`.
+ *
+ * @returns {Promise<ProofSetVerification>} Resolve to a verification result.
+ */
+export async function verifyPresentation(
+  suite: typeof EcdsaRdfc2019 | typeof EcdsaJcs2019,
+  presentation: JsonLdDocument,
+  options: {
+    challenge: string
+    domain?: string | Array<string>
+    documentLoader: LoadDocumentCallback
+    curve?: Curve
+    lenient?: boolean
+    requireLowS?: boolean
+  } & ProofValidity,
+): Promise<ProofSetVerification> {
+  return await suite.verifyProof(presentation, {
+    ...options,
+    expectedProofPurpose: SUITE_CONSTANT.PRESENTATION_PROOF_PURPOSE,
+    expectedChallenge: options.challenge,
+    expectedDomain: options.domain,
+  })
+}
@@ -0,0 +1,178 @@
+import {
+  type CIDDocument,
+  document,
+  type LoadDocumentCallback,
+  ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+  type VerificationMethod,
+} from "@herculas/vc-data-integrity"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * The values a verifier expects a proof to carry. Each expectation is only checked if it is specified.
+ */
+export type ProofExpectation = {
+  expectedProofPurpose?: string
+  expectedChallenge?: string
+  expectedDomain?: string | Array<string>
+}
+
+/**
+ * Check a proof against the values expected by the verifier. The `challenge` of the proof must equal the expected
+ * challenge, and the `domain` of the proof must contain every expected domain, so that a proof created for one verifier
+ * or one session cannot be replayed to another.
+ *
+ * @param {Proof} proof The proof to check.
+ * @param {ProofExpectation} expectation The expected proof purpose, challenge and domain.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Array<ProcessingError>} The errors found, empty if the proof meets all expectations.
+ *
+ * @see https://www.w3.org/TR/vc-data-integrity/#verify-proof
+ */
+export function checkExpectation(proof: Proof, expectation: ProofExpectation, from: string): Array<ProcessingError> {
+  const errors: Array<ProcessingError> = []
+
+  if (expectation.expectedProofPurpose !== undefined && proof.proofPurpose !== expectation.expectedProofPurpose) {
+    errors.push(
+      new ProcessingError(
+        ProcessingErrorCode.MISMATCHED_PROOF_PURPOSE_ERROR,
+        from,
+        `The proof purpose ${proof.proofPurpose} does not match the expected ${expectation.expectedProofPurpose}.`,
+      ),
+    )
+  }
+
+  if (expectation.expectedChallenge !== undefined && proof.challenge !== expectation.expectedChallenge) {
+    errors.push(
+      new ProcessingError(
+        ProcessingErrorCode.INVALID_CHALLENGE_ERROR,
+        from,
+        proof.challenge === undefined
+          ? "The proof does not contain a challenge."
+          : "The proof challenge does not match the expected challenge.",
+      ),
+    )
+  }
+
+  if (expectation.expectedDomain !== undefined) {
+    const expectedDomains = _toArray(expectation.expectedDomain)
+    const domains = proof.domain === undefined ? [] : _toArray(proof.domain as string | Array<string>)
+    if (domains.length === 0 || expectedDomains.some((domain) => !domains.includes(domain))) {
+      errors.push(
+        new ProcessingError(
+          ProcessingErrorCode.INVALID_DOMAIN_ERROR,
+          from,
+          domains.length === 0
+            ? "The proof does not contain a domain."
+            : "The proof domain does not match the expected domain.",
+        ),
+      )
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Retrieve the verification method of a proof, and make sure it is authorized for the purpose of the proof. The
+ * controller document of the method is resolved, and MUST reference the method in the verification relationship named
+ * by `proof.proofPurpose`, e.g., `assertionMethod` for a credential or `authentication` for a presentation. Otherwise,
+ * anyone could sign with a key that merely appears in some document, or use a key for a purpose its controller never
+ * granted. A proof purpose that is not a verification relationship, e.g., `verificationMethod`, is rejected.
+ *
+ * @param {Proof} proof The proof whose verification method is to be retrieved.
+ * @param {LoadDocumentCallback} documentLoader A document loader to resolve the method and its controller document.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Promise<VerificationMethod>} Resolve to the authorized verification method.
+ *
+ * @see https://www.w3.org/TR/cid-1.0/#retrieve-verification-method
+ */
+export async function retrieveAuthorizedMethod(
+  proof: Proof,
+  documentLoader: LoadDocumentCallback,
+  from: string,
+): Promise<VerificationMethod> {
+  if (!proof.proofPurpose) {
+    throw new ProcessingError(ProcessingErrorCode.MALFORMED_PROOF_ERROR, from, "The proof does not specify a purpose.")
+  }
+  if (!SUITE_CONSTANT.VERIFICATION_RELATIONSHIPS.includes(proof.proofPurpose)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.MISMATCHED_PROOF_PURPOSE_ERROR,
+      from,
+      `The proof purpose ${proof.proofPurpose} is not a verification relationship.`,
+    )
+  }
+
+  const method = await document.retrieveVerificationMethod(proof.verificationMethod!, new Set(), { documentLoader })
+  if (!method.controller) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The verification method ${method.id} does not specify a controller.`,
+    )
+  }
+
+  let controllerDocument: CIDDocument
+  try {
+    controllerDocument = (await documentLoader(method.controller)).document as CIDDocument
+  } catch (error) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The controller document ${method.controller} could not be resolved: ${error}`,
+    )
+  }
+
+  if (controllerDocument.id !== method.controller) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The controller document identifier ${controllerDocument.id} does not match ${method.controller}.`,
+    )
+  }
+
+  const relationship = (controllerDocument as Record<string, unknown>)[proof.proofPurpose]
+  const references = relationship === undefined ? [] : Array.isArray(relationship) ? relationship : [relationship]
+  const authorized = references.some((reference) => {
+    const id = typeof reference === "string" ? reference : (reference as { id?: string })?.id
+    return id !== undefined && _resolveReference(id, controllerDocument.id) === method.id
+  })
+
+  if (!authorized) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The verification method ${method.id} is not authorized for ${proof.proofPurpose} by its controller.`,
+    )
+  }
+
+  return method
+}
+
+/**
+ * Resolve a reference to a verification method, which is either an absolute URL or a fragment relative to the
+ * controller document.
+ *
+ * @param {string} reference The reference listed in a verification relationship.
+ * @param {string} base The identifier of the controller document.
+ *
+ * @returns {string} The absolute identifier of the verification method.
+ */
+function _resolveReference(reference: string, base: string): string {
+  return reference.startsWith("#") ? `${base}${reference}` : reference
+}
+
+/**
+ * Wrap a single value into an array, leaving arrays untouched.
+ *
+ * @param {string | Array<string>} value A single value or an array of values.
+ *
+ * @returns {Array<string>} The values as an array.
+ */
+function _toArray(value: string | Array<string>): Array<string> {
+  return Array.isArray(value) ? value : [value]
+}
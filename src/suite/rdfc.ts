@@ -4,11 +4,18 @@ import {
   type JsonLdDocument,
   type LoadDocumentCallback,
   multi,
+  ProcessingErrorCode,
   type Proof,
-  type Verification,
 } from "@herculas/vc-data-integrity"
 
 import type { Curve } from "../constant/curve.ts"
+import type { Signer } from "../key/signer.ts"
+import { withBundledContexts } from "../loader/context.ts"
+
+import { checkExpectation, type ProofExpectation } from "./purpose.ts"
+import { type ProofSetVerification, toSecuredInput, verifyProofs } from "./set.ts"
+import { checkValidity, type ProofValidity } from "./validity.ts"
+import { type CheckedVerification, conclude, recordCheck, runCheck, type VerificationCheck } from "./result.ts"
 
 import * as core from "./core.ts"
 import * as SUITE_CONSTANT from "../constant/suite.ts"
@@ -29,10 +36,14 @@ export class EcdsaRdfc2019 extends Cryptosuite {
   static override readonly cryptosuite: string = SUITE_CONSTANT.SUITE_RDFC
 
   /**
-   * Create a data integrity proof given an unsecured data document.
+   * Create a data integrity proof given an unsecured data document. If the document is already secured, the new proof
+   * is computed over the document without its existing proofs, or together with the proofs referenced by
+   * `proof.previousProof` in a proof chain. The new proof is returned on its own, and could be attached to the document
+   * with `addProof()`.
    *
    * @param {JsonLdDocument} unsecuredDocument An unsecured data document to create a proof for.
-   * @param {object} options A set of options to use when creating the proof.
+   * @param {object} options A set of options to use when creating the proof. If `deterministic` is set, the signature
+   * nonce is derived as specified in RFC 6979, so that signing the same document twice yields byte-identical proofs.
    *
    * @returns {Promise<Proof>} Resolve to a data integrity proof.
    *
@@ -41,9 +52,11 @@ export class EcdsaRdfc2019 extends Cryptosuite {
   static override async createProof(
     unsecuredDocument: JsonLdDocument,
     options: {
-      curve: Curve
+      curve?: Curve
       proof: Proof
       documentLoader: LoadDocumentCallback
+      signer?: Signer
+      deterministic?: boolean
     },
   ): Promise<Proof> {
     // Procedure:
@@ -60,69 +73,170 @@ export class EcdsaRdfc2019 extends Cryptosuite {
     // 6. Let `proof.proofValue` be a base58-btc-encoded multibase value of `proofBytes`.
     // 7. Return `proof` as the data integrity proof.
 
+    options = withBundledContexts(options)
     const proof = structuredClone(options.proof)
+    const curve = await core.resolveCurve(options)
 
-    const canonicalProofConfig = await core.configRdfc(unsecuredDocument as Credential, options)
-    const canonicalDocument = await core.transformRdfc(unsecuredDocument as Credential, options)
-    const hashData = await core.hashRdfcJcs(canonicalDocument, canonicalProofConfig, { curve: options.curve })
-    const proofBytes = await core.serializeRdfcJcs(hashData, options)
+    // an already secured document is secured again, over its previous proofs only in a proof chain
+    const unsecuredCredential = toSecuredInput(
+      unsecuredDocument as Credential,
+      proof,
+      ProcessingErrorCode.PROOF_GENERATION_ERROR,
+      "EcdsaRdfc2019::createProof",
+    )
+    const canonicalProofConfig = await core.configRdfc(unsecuredCredential, options)
+    const canonicalDocument = await core.transformRdfc(unsecuredCredential, options)
+    const hashData = await core.hashRdfcJcs(canonicalDocument, canonicalProofConfig, { curve })
+    const proofBytes = await core.serializeRdfcJcs(hashData, { ...options, curve })
 
     proof.proofValue = multi.base58btc.encode(proofBytes)
     return proof
   }
 
   /**
-   * Verify a data integrity proof given a secured data document.
+   * Verify a data integrity proof given a secured data document. If the document carries a proof set or a proof chain,
+   * every `ecdsa-rdfc-2019` proof in it is verified, and the result of each proof is reported in `results`. Proofs of
+   * other suites are reported as not verified, so a document co-signed with different suites should be verified with
+   * `verify()`.
    *
    * @param {JsonLdDocument} securedDocument A secured data document to verify a proof for.
-   * @param {object} options A set of options to use when verifying the proof.
+   * @param {object} options A set of options to use when verifying the proof. If `lenient` is set, a `proofValue`
+   * carrying an ASN.1 DER encoded signature is accepted and converted; otherwise such a proof is rejected. If
+   * `requireLowS` is set, a malleable signature in the high-S form is rejected. If `expectedProofPurpose`,
+   * `expectedChallenge` or `expectedDomain` is set, a proof with a missing or different value is not verified. A proof
+   * that has expired, or is created in the future beyond `clockSkew`, is not verified either, where the current time is
+   * read from `clock`. If `strictRevocation` is set, a proof whose key has been revoked by now is not verified.
+   *
+   * Failures are reported in the result rather than thrown, with an error code from the Data Integrity specification.
+   * The result of each proof holds the outcome of each check, such as the context, the verification method, and the
+   * signature.
    *
-   * @returns {Promise<Result.Verification>} Resolve to a verification result.
+   * @returns {Promise<ProofSetVerification>} Resolve to a verification result.
    *
    * @see https://www.w3.org/TR/vc-di-ecdsa/#verify-proof-ecdsa-rdfc-2019
+   * @see https://www.w3.org/TR/vc-data-integrity/#verify-proof-sets-and-chains
    */
   static override async verifyProof(
     securedDocument: JsonLdDocument,
-    options: {
-      curve: Curve
-      documentLoader: LoadDocumentCallback
-    },
-  ): Promise<Verification> {
-    // Procedure:
-    //
-    // 1. Let `unsecuredDocument` be a copy of `securedDocument` with the `proof` property removed.
-    // 2. Let `proofOptions` be the result of a copy of `securedDocument.proof` with the `proofValue` property removed.
-    // 3. Let `proofBytes` be the multibase decoded base58-btc value in `securedDocument.proof.proofValue`.
-    // 4. Let `transformedData` be the result of running the transformation algorithm with `unsecuredDocument` and
-    //    `proofOptions` passed as parameters.
-    // 5. Let `proofConfig` be the result of running the proof configuration algorithm with `unsecuredDocument` and
-    //    `proofOptions` passed as parameters.
-    // 6. Let `hashData` be the result of running the hashing algorithm with `transformedData` and `proofConfig` passed
-    //    as parameters.
-    // 7. Let `verified` be the result of running the proof verification algorithm with `hashData`, `proofBytes`, and
-    //    `proofConfig` passed as parameters.
-    // 8. Return a verification result with `verified` and `verifiedDocument` set to `unsecuredDocument` if `verified`
-    //    is `true`.
+    options:
+      & {
+        curve?: Curve
+        documentLoader: LoadDocumentCallback
+        lenient?: boolean
+        requireLowS?: boolean
+      }
+      & ProofExpectation
+      & ProofValidity,
+  ): Promise<ProofSetVerification> {
+    options = withBundledContexts(options)
+    return await verifyProofs(
+      securedDocument as Credential,
+      (unsecuredCredential, proof) => verifyRdfcProof(unsecuredCredential, proof, options),
+      "EcdsaRdfc2019::verifyProof",
+      (proof) => proof.type === SUITE_CONSTANT.GENERAL_PROOF_TYPE && proof.cryptosuite === SUITE_CONSTANT.SUITE_RDFC,
+    )
+  }
+}
 
-    const securedCredential = securedDocument as Credential
+/**
+ * Verify a single `ecdsa-rdfc-2019` proof over its input document, which carries no proof other than the previous
+ * proofs in a proof chain. Unlike `EcdsaRdfc2019.verifyProof()`, the bundled contexts are only served if the given
+ * loader is wrapped by `contextLoader()`.
+ *
+ * @param {Credential} unsecuredCredential The input document secured by the proof.
+ * @param {Proof} proof The proof to verify.
+ * @param {object} options A set of options to use when verifying the proof.
+ *
+ * @returns {Promise<CheckedVerification>} Resolve to a verification result, along with the outcome of each check.
+ */
+export async function verifyRdfcProof(
+  unsecuredCredential: Credential,
+  proof: Proof,
+  options:
+    & {
+      curve?: Curve
+      documentLoader: LoadDocumentCallback
+      lenient?: boolean
+      requireLowS?: boolean
+    }
+    & ProofExpectation
+    & ProofValidity,
+): Promise<CheckedVerification> {
+  // Procedure:
+  //
+  // 1. Let `unsecuredDocument` be a copy of `securedDocument` with the `proof` property removed.
+  // 2. Let `proofOptions` be the result of a copy of `securedDocument.proof` with the `proofValue` property removed.
+  // 3. Let `proofBytes` be the multibase decoded base58-btc value in `securedDocument.proof.proofValue`.
+  // 4. Let `transformedData` be the result of running the transformation algorithm with `unsecuredDocument` and
+  //    `proofOptions` passed as parameters.
+  // 5. Let `proofConfig` be the result of running the proof configuration algorithm with `unsecuredDocument` and
+  //    `proofOptions` passed as parameters.
+  // 6. Let `hashData` be the result of running the hashing algorithm with `transformedData` and `proofConfig` passed
+  //    as parameters.
+  // 7. Let `verified` be the result of running the proof verification algorithm with `hashData`, `proofBytes`, and
+  //    `proofConfig` passed as parameters.
+  // 8. Return a verification result with `verified` and `verifiedDocument` set to `unsecuredDocument` if `verified`
+  //    is `true`.
 
-    const unsecuredCredential = structuredClone(securedCredential)
-    delete unsecuredCredential.proof
+  const from = "EcdsaRdfc2019::verifyProof"
+  const checks: Array<VerificationCheck> = []
+  recordCheck(checks, "expectation", checkExpectation(proof, options, from))
+  recordCheck(checks, "validity", checkValidity(proof, options, from))
 
-    const proofOptions = structuredClone(securedCredential.proof) as Proof
-    delete proofOptions.proofValue
+  const proofOptions = structuredClone(proof)
+  delete proofOptions.proofValue
 
-    const proofBytes = multi.base58btc.decode((securedCredential.proof as Proof).proofValue!)
-    const transformOptions = { proof: proofOptions, documentLoader: options.documentLoader, curve: options.curve }
+  const proofBytes = await runCheck(
+    checks,
+    "proofValue",
+    ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+    from,
+    () => multi.base58btc.decode(proof.proofValue!),
+  )
+  if (!proofBytes) {
+    return conclude(checks, unsecuredCredential)
+  }
 
-    const canonicalDocument = await core.transformRdfc(unsecuredCredential, transformOptions)
-    const canonicalProofConfig = await core.configRdfc(unsecuredCredential, transformOptions)
-    const hashData = await core.hashRdfcJcs(canonicalDocument, canonicalProofConfig, { curve: options.curve })
-    const verified = await core.verifyRdfcJcs(hashData, proofBytes, transformOptions)
+  const key = await runCheck(
+    checks,
+    "verificationMethod",
+    ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+    from,
+    () => core.resolveVerificationKey(proofOptions, options, from),
+  )
+  if (!key) {
+    return conclude(checks, unsecuredCredential)
+  }
 
-    return {
-      verified,
-      verifiedDocument: verified ? unsecuredCredential : undefined,
-    }
+  const transformOptions = { proof: proofOptions, documentLoader: options.documentLoader, curve: key.curve }
+  const hashData = await runCheck(
+    checks,
+    "transformation",
+    ProcessingErrorCode.PROOF_TRANSFORMATION_ERROR,
+    from,
+    async () => {
+      const canonicalDocument = await core.transformRdfc(unsecuredCredential, transformOptions)
+      const canonicalProofConfig = await core.configRdfc(unsecuredCredential, transformOptions)
+      return await core.hashRdfcJcs(canonicalDocument, canonicalProofConfig, { curve: key.curve })
+    },
+  )
+  if (!hashData) {
+    return conclude(checks, unsecuredCredential)
   }
+
+  await runCheck(
+    checks,
+    "signature",
+    ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+    from,
+    () =>
+      core.verifyRdfcJcs(hashData, proofBytes, {
+        ...transformOptions,
+        publicKey: key.publicKey,
+        lenient: options.lenient,
+        requireLowS: options.requireLowS,
+      }),
+  )
+
+  return conclude(checks, unsecuredCredential)
 }
@@ -0,0 +1,138 @@
+import {
+  type Credential,
+  format,
+  type JsonLdDocument,
+  type LoadDocumentCallback,
+  multi,
+  ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+} from "@herculas/vc-data-integrity"
+
+import type { Curve } from "../constant/curve.ts"
+import { withBundledContexts } from "../loader/context.ts"
+import { EcdsaSd2023 } from "./sd.ts"
+import type { ProofExpectation } from "./purpose.ts"
+import type { ProofValidity } from "./validity.ts"
+import { type ProofSetVerification, verifyProofs } from "./set.ts"
+import type { CheckedVerification } from "./result.ts"
+import { verifyJcsProof } from "./jcs.ts"
+import { verifyLegacyProof } from "./legacy.ts"
+import { verifyRdfcProof } from "./rdfc.ts"
+
+import * as PREFIX_CONSTANT from "../constant/prefix.ts"
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * The options accepted by `verify`, which are passed to the cryptographic suite of each proof.
+ */
+type VerifyOptions =
+  & {
+    curve?: Curve
+    documentLoader: LoadDocumentCallback
+    lenient?: boolean
+    requireLowS?: boolean
+  }
+  & ProofExpectation
+  & ProofValidity
+
+/**
+ * A function verifying a single proof over its input document.
+ */
+type ProofVerifier = (input: Credential, proof: Proof, options: VerifyOptions) => Promise<CheckedVerification>
+
+/**
+ * The cryptographic suites supported by this library, indexed by their `cryptosuite` identifier.
+ */
+const SUITES: Map<string, ProofVerifier> = new Map([
+  [SUITE_CONSTANT.SUITE_RDFC, verifyRdfcProof],
+  [SUITE_CONSTANT.SUITE_JCS, verifyJcsProof],
+  [SUITE_CONSTANT.SUITE_SD, _verifySdProof],
+])
+
+/**
+ * The legacy Linked Data Signatures suites supported by this library, which carry no `cryptosuite` and are indexed by
+ * their proof `type` instead.
+ */
+const LEGACY_SUITES: Map<string, ProofVerifier> = new Map([
+  [SUITE_CONSTANT.LEGACY_PROOF_TYPE, verifyLegacyProof],
+])
+
+/**
+ * Verify a secured data document without knowing its cryptographic suites in advance. Each proof in the document is
+ * routed by its `type` and `cryptosuite` to `ecdsa-rdfc-2019`, `ecdsa-jcs-2019` or `ecdsa-sd-2023`, or to the legacy
+ * `EcdsaSecp256r1Signature2019` suite, so that a proof set may mix proofs of different suites. A proof of an unknown
+ * suite, or an `ecdsa-sd-2023` base proof that is meant to be derived by the holder rather than verified, is reported
+ * as not verified with a `PROOF_VERIFICATION_ERROR`.
+ *
+ * @param {JsonLdDocument} securedDocument A secured data document with one or more proofs.
+ * @param {object} options A set of options to use when verifying the proofs, as accepted by the `verifyProof()` method
+ * of each suite.
+ *
+ * @returns {Promise<ProofSetVerification>} Resolve to the overall result along with the result of each proof.
+ */
+export async function verify(securedDocument: JsonLdDocument, options: VerifyOptions): Promise<ProofSetVerification> {
+  options = withBundledContexts(options)
+  return await verifyProofs(securedDocument as Credential, (input, proof) => {
+    const verifier = proof.type === SUITE_CONSTANT.GENERAL_PROOF_TYPE
+      ? SUITES.get(proof.cryptosuite!)
+      : LEGACY_SUITES.get(proof.type)
+    if (!verifier) {
+      const error = new ProcessingError(
+        ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+        "suite/registry#verify",
+        `The proof type ${proof.type} with cryptosuite ${proof.cryptosuite} is not supported.`,
+      )
+      return Promise.resolve({ verified: false, errors: [error], checks: [_failedCheck(error)] })
+    }
+    return verifier(input, proof, options)
+  }, "suite/registry#verify")
+}
+
+/**
+ * Verify a single `ecdsa-sd-2023` proof. Only a derived proof, whose value starts with the `0xd95d01` header, could be
+ * verified; a base proof with the `0xd95d00` header is held by the holder to derive proofs from.
+ *
+ * @param {Credential} input The input document secured by the proof.
+ * @param {Proof} proof The proof to verify.
+ * @param {VerifyOptions} options A set of options to use when verifying the proof.
+ *
+ * @returns {Promise<CheckedVerification>} Resolve to a verification result.
+ */
+async function _verifySdProof(input: Credential, proof: Proof, options: VerifyOptions): Promise<CheckedVerification> {
+  if (_proofValueHeader(proof.proofValue) === PREFIX_CONSTANT.CBOR_BASE) {
+    const error = new ProcessingError(
+      ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+      "suite/registry#verify",
+      "The proof is an ecdsa-sd-2023 base proof, which is to be derived by the holder before it could be verified.",
+    )
+    return { verified: false, errors: [error], checks: [_failedCheck(error)] }
+  }
+  return await EcdsaSd2023.verifyProof({ ...input, proof }, options)
+}
+
+/**
+ * Read the three-byte header of an `ecdsa-sd-2023` proof value.
+ *
+ * @param {string} [proofValue] A base64url-no-pad multibase encoded proof value.
+ *
+ * @returns {string | undefined} The header in hexadecimal, or `undefined` if the value could not be decoded.
+ */
+function _proofValueHeader(proofValue?: string): string | undefined {
+  try {
+    return format.bytesToHex(multi.base64urlnopad.decode(proofValue!).slice(0, 3))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Build a failed `cryptosuite` check from an error.
+ *
+ * @param {ProcessingError} error The error explaining the failure.
+ *
+ * @returns {object} The failed check.
+ */
+function _failedCheck(error: ProcessingError) {
+  return { check: "cryptosuite", verified: false, errors: [error] }
+}
@@ -0,0 +1,95 @@
+import {
+  type Credential,
+  ProcessingError,
+  type ProcessingErrorCode,
+  type Verification,
+} from "@herculas/vc-data-integrity"
+
+/**
+ * The outcome of a single step in the verification of a proof, such as the resolution of the verification key or the
+ * check of a signature. A failed check carries the errors explaining the failure.
+ */
+export type VerificationCheck = {
+  check: string
+  verified: boolean
+  errors?: Array<ProcessingError>
+}
+
+/**
+ * The verification result of a single proof, along with the outcome of each check performed. The proof is verified if
+ * and only if every check is passed. A check is skipped, and thus absent, if a check it depends on has failed.
+ */
+export type CheckedVerification = Verification & {
+  checks: Array<VerificationCheck>
+}
+
+/**
+ * Record a check that has been performed elsewhere, given the errors it found.
+ *
+ * @param {Array<VerificationCheck>} checks The checks performed so far, to which the new check is appended.
+ * @param {string} check The name of the check.
+ * @param {Array<ProcessingError>} errors The errors found by the check, empty if the check is passed.
+ *
+ * @returns {boolean} `true` if the check is passed.
+ */
+export function recordCheck(checks: Array<VerificationCheck>, check: string, errors: Array<ProcessingError>): boolean {
+  const verified = errors.length === 0
+  checks.push(verified ? { check, verified } : { check, verified, errors })
+  return verified
+}
+
+/**
+ * Perform a check and record its outcome. The check fails if `operation` throws, or if it resolves to `false`. An error
+ * thrown by `operation` is kept as is if it is a `ProcessingError`, and is wrapped into one with the given code
+ * otherwise, so that every failure is reported with an error code from the Data Integrity specification.
+ *
+ * @param {Array<VerificationCheck>} checks The checks performed so far, to which the new check is appended.
+ * @param {string} check The name of the check.
+ * @param {ProcessingErrorCode} code The error code to report if the check fails.
+ * @param {string} from The name of the calling function, used in error messages.
+ * @param {Function} operation The operation performing the check, resolving to its result.
+ *
+ * @returns {Promise<T | undefined>} Resolve to the result of `operation`, or `undefined` if the check fails.
+ */
+export async function runCheck<T>(
+  checks: Array<VerificationCheck>,
+  check: string,
+  code: ProcessingErrorCode,
+  from: string,
+  operation: () => T | Promise<T>,
+): Promise<T | undefined> {
+  try {
+    const result = await operation()
+    if (result === false) {
+      recordCheck(checks, check, [new ProcessingError(code, from, `The ${check} check has failed.`)])
+      return undefined
+    }
+    recordCheck(checks, check, [])
+    return result
+  } catch (error) {
+    const wrapped = error instanceof ProcessingError
+      ? error
+      : new ProcessingError(code, from, error instanceof Error ? error.message : String(error))
+    recordCheck(checks, check, [wrapped])
+    return undefined
+  }
+}
+
+/**
+ * Conclude the verification of a proof from the checks performed.
+ *
+ * @param {Array<VerificationCheck>} checks The checks performed.
+ * @param {Credential} [verifiedDocument] The document secured by the proof, returned only if every check is passed.
+ *
+ * @returns {CheckedVerification} The verification result.
+ */
+export function conclude(checks: Array<VerificationCheck>, verifiedDocument?: Credential): CheckedVerification {
+  const verified = checks.every((check) => check.verified)
+  const errors = checks.flatMap((check) => check.errors ?? [])
+  return {
+    verified,
+    verifiedDocument: verified ? verifiedDocument : undefined,
+    errors: errors.length > 0 ? errors : undefined,
+    checks,
+  }
+}
@@ -5,10 +5,15 @@ import {
   type LoadDocumentCallback,
   type Proof,
   type URNScheme,
-  type Verification,
 } from "@herculas/vc-data-integrity"
 
 import type { Curve } from "../constant/curve.ts"
+import type { Signer } from "../key/signer.ts"
+import { withBundledContexts } from "../loader/context.ts"
+
+import { checkExpectation, type ProofExpectation } from "./purpose.ts"
+import { checkValidity, type ProofValidity } from "./validity.ts"
+import { type CheckedVerification, conclude, recordCheck, type VerificationCheck } from "./result.ts"
 
 import * as core from "./core.ts"
 import * as SUITE_CONSTANT from "../constant/suite.ts"
@@ -32,7 +37,9 @@ export class EcdsaSd2023 extends Cryptosuite {
    * Create a base data integrity proof given an unsecured data document.
    *
    * @param {JsonLdDocument} unsecuredDocument An unsecured data document to create a proof for.
-   * @param {object} options A set of options to use when creating the proof.
+   * @param {object} options A set of options to use when creating the proof. If `deterministic` is set, the HMAC key,
+   * the proof-scoped keypair and every signature nonce are derived from the issuer private key instead of being drawn
+   * at random, so that repeated runs yield byte-identical base proofs.
    *
    * @returns {Promise<Proof>} Resolve to a base data integrity proof.
    *
@@ -41,10 +48,12 @@ export class EcdsaSd2023 extends Cryptosuite {
   static override async createProof(
     unsecuredDocument: JsonLdDocument,
     options: {
-      curve: Curve
+      curve?: Curve
       proof: Proof
       mandatoryPointers: Array<string>
       documentLoader: LoadDocumentCallback
+      signer?: Signer
+      deterministic?: boolean
       urnScheme?: URNScheme
       randomString?: string
     },
@@ -63,11 +72,13 @@ export class EcdsaSd2023 extends Cryptosuite {
     // 6. Let `proof.proofValue` be a base64-url-encoded Multibase value of the `proofBytes`.
     // 7. Return `proof` as the data integrity proof.
 
+    options = withBundledContexts(options)
     const proof = structuredClone(options.proof)
-    const proofConfig = await core.configSd(unsecuredDocument as Credential, options)
-    const transformedData = await core.transformSd(unsecuredDocument as Credential, options)
-    const hashData = await core.hashSd(transformedData, proofConfig, options)
-    const proofValue = await core.serializeSd(hashData, options)
+    const curveOptions = { ...options, curve: await core.resolveCurve(options) }
+    const proofConfig = await core.configSd(unsecuredDocument as Credential, curveOptions)
+    const transformedData = await core.transformSd(unsecuredDocument as Credential, curveOptions)
+    const hashData = await core.hashSd(transformedData, proofConfig, curveOptions)
+    const proofValue = await core.serializeSd(hashData, curveOptions)
     proof.proofValue = proofValue
     return proof
   }
@@ -86,7 +97,7 @@ export class EcdsaSd2023 extends Cryptosuite {
   static override async deriveProof(
     securedDocument: JsonLdDocument,
     options: {
-      curve: Curve
+      curve?: Curve
       documentLoader: LoadDocumentCallback
       selectivePointers: Array<string>
       urnScheme?: URNScheme
@@ -100,13 +111,15 @@ export class EcdsaSd2023 extends Cryptosuite {
     //    passing `baseSignature`, `publicKey`, `signatures`, `labelMap`, and `mandatoryIndexes`.
     // 4. Set the value of the "proof" property in `revealDocument` to `newProof`.
 
+    options = withBundledContexts(options)
     const securedCredential = securedDocument as Credential
 
     const unsecuredCredential = structuredClone(securedCredential)
     delete unsecuredCredential.proof
 
     const newProof = structuredClone(securedCredential.proof) as Proof
-    const proofValue = await core.deriveSd(unsecuredCredential, newProof, options)
+    const curve = await core.resolveCurve({ ...options, proof: newProof })
+    const proofValue = await core.deriveSd(unsecuredCredential, newProof, { ...options, curve })
 
     newProof.proofValue = proofValue
     return newProof
@@ -116,36 +129,50 @@ export class EcdsaSd2023 extends Cryptosuite {
    * Verify a selective disclosure proof given a secured data document with a derived proof in it.
    *
    * @param {JsonLdDocument} securedDocument A secured data document with a derived proof in it.
-   * @param {object} options A set of options to use when verifying the proof.
+   * @param {object} options A set of options to use when verifying the proof. If `lenient` is set, ASN.1 DER encoded
+   * signatures in the derived proof are accepted and converted; otherwise such a proof is rejected. If `requireLowS`
+   * is set, the base signature and every statement signature must be in the low-S form. A proof that has expired, or is
+   * created in the future beyond `clockSkew` according to `clock`, is not verified, nor is a proof with a missing or
+   * different value than `expectedProofPurpose`, `expectedChallenge` or `expectedDomain`. If `strictRevocation` is
+   * set, a proof whose key has been revoked by now is not verified.
+   *
+   * Failures are reported in the result rather than thrown, with an error code from the Data Integrity specification.
+   * `checks` holds the outcome of each check, including the base signature and every statement signature.
    *
-   * @returns {Promise<Verification>} Resolve to a verification result.
+   * @returns {Promise<CheckedVerification>} Resolve to a verification result, along with the outcome of each check.
    *
    * @see https://www.w3.org/TR/vc-di-ecdsa/#verify-derived-proof-ecdsa-sd-2023
    */
   static override async verifyProof(
     securedDocument: JsonLdDocument,
-    options: {
-      curve: Curve
-      documentLoader: LoadDocumentCallback
-    },
-  ): Promise<Verification> {
+    options:
+      & {
+        curve?: Curve
+        documentLoader: LoadDocumentCallback
+        lenient?: boolean
+        requireLowS?: boolean
+      }
+      & ProofExpectation
+      & ProofValidity,
+  ): Promise<CheckedVerification> {
     // Procedure:
     //
     // 1. Let `unsecuredDocument` be a copy of document with the `proof` value removed.
     // 9. Return a verification result with `verified` and `verifiedDocument` set to `unsecuredDocument` if `verified`
     //    is true.
 
+    options = withBundledContexts(options)
     const securedCredential = securedDocument as Credential
 
     const unsecuredCredential = structuredClone(securedCredential)
     delete unsecuredCredential.proof
 
     const proof = structuredClone(securedCredential.proof) as Proof
-    const verified = await core.verifySd(unsecuredCredential, proof, options)
+    const checks: Array<VerificationCheck> = []
+    recordCheck(checks, "expectation", checkExpectation(proof, options, "EcdsaSd2023::verifyProof"))
+    recordCheck(checks, "validity", checkValidity(proof, options, "EcdsaSd2023::verifyProof"))
+    checks.push(...await core.verifySd(unsecuredCredential, proof, options))
 
-    return {
-      verified,
-      verifiedDocument: verified ? unsecuredCredential : undefined,
-    }
+    return conclude(checks, unsecuredCredential)
   }
 }
@@ -0,0 +1,179 @@
+import {
+  type Credential,
+  type JsonLdDocument,
+  ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+  type Verification,
+} from "@herculas/vc-data-integrity"
+
+import type { CheckedVerification } from "./result.ts"
+
+/**
+ * The verification result of a single proof in a proof set or a proof chain.
+ */
+export type ProofVerification = CheckedVerification & {
+  proof: Proof
+}
+
+/**
+ * The verification result of a secured document with one or more proofs. The document is verified if and only if every
+ * proof in it is verified, and `results` holds the result of each proof in the order they appear in the document.
+ */
+export type ProofSetVerification = Verification & {
+  results: Array<ProofVerification>
+}
+
+/**
+ * Add a proof to a data document. The proof is set as is on a document without proofs, and is appended to the proof
+ * set otherwise, turning an existing single proof into a proof set. The input document is left untouched.
+ *
+ * @param {JsonLdDocument} securedDocument A data document, with or without existing proofs.
+ * @param {Proof} proof The proof to add, typically created by a cryptosuite from the same document.
+ *
+ * @returns {Credential} A copy of the document carrying the existing proofs, if any, followed by the new one.
+ *
+ * @see https://www.w3.org/TR/vc-data-integrity/#add-proof-set-chain
+ */
+export function addProof(securedDocument: JsonLdDocument, proof: Proof): Credential {
+  const document = structuredClone(securedDocument) as Credential
+  const allProofs = toProofs(document)
+  document.proof = allProofs.length === 0 ? proof : [...allProofs, proof]
+  return document
+}
+
+/**
+ * Retrieve the proofs of a secured data document as an array, no matter whether the document carries a single proof, a
+ * proof set, or no proof at all.
+ *
+ * @param {Credential} securedDocument A secured data document.
+ *
+ * @returns {Array<Proof>} The proofs in the document.
+ */
+export function toProofs(securedDocument: Credential): Array<Proof> {
+  const proof = securedDocument.proof
+  if (!proof) {
+    return []
+  }
+  return Array.isArray(proof) ? proof : [proof]
+}
+
+/**
+ * Determine the document that a proof is computed over. This is the input document without any of its proofs, except
+ * for the proofs referenced by `proof.previousProof`, which are included as the `proof` property so that the new proof
+ * endorses them in a proof chain.
+ *
+ * @param {Credential} document A data document, with or without existing proofs.
+ * @param {Proof} proof The proof to be created or verified.
+ * @param {ProcessingErrorCode} code The error code to raise if a previous proof is missing.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Credential} The document to be secured by the proof.
+ *
+ * @see https://www.w3.org/TR/vc-data-integrity/#add-proof-set-chain
+ */
+export function toSecuredInput(
+  document: Credential,
+  proof: Proof,
+  code: ProcessingErrorCode,
+  from: string,
+): Credential {
+  const allProofs = toProofs(document)
+  const input = structuredClone(document)
+  delete input.proof
+
+  if (proof.previousProof) {
+    const previousIds = Array.isArray(proof.previousProof) ? proof.previousProof : [proof.previousProof]
+    input.proof = previousIds.map((previousId) => {
+      const matchingProof = allProofs.find((existing) => existing.id === previousId)
+      if (!matchingProof) {
+        throw new ProcessingError(code, from, `The previous proof ${previousId} is not found in the document.`)
+      }
+      return structuredClone(matchingProof)
+    })
+  }
+
+  return input
+}
+
+/**
+ * Verify every proof in a secured data document, which may carry a single proof, a proof set, or a proof chain. Each
+ * proof is verified independently over the document without proofs, together with its previous proofs if any. A proof
+ * whose previous proof is missing is reported as not verified, with a failed `previousProof` check.
+ *
+ * If `filter` is given, only the proofs it accepts are verified, e.g., the proofs of a single cryptographic suite,
+ * while the other proofs could still be referenced as previous proofs. The other proofs are reported as not verified,
+ * with a failed `cryptosuite` check, so that a document is never verified while some of its proofs are left unchecked.
+ *
+ * @param {Credential} securedDocument A secured data document.
+ * @param {Function} verify A function verifying a single proof over the given input document.
+ * @param {string} from The name of the calling function, used in error messages.
+ * @param {Function} [filter] A function selecting the proofs to verify, default to accepting every proof.
+ *
+ * @returns {Promise<ProofSetVerification>} Resolve to the overall result along with the result of each proof.
+ *
+ * @see https://www.w3.org/TR/vc-data-integrity/#verify-proof-sets-and-chains
+ */
+export async function verifyProofs(
+  securedDocument: Credential,
+  verify: (input: Credential, proof: Proof) => Promise<CheckedVerification>,
+  from: string,
+  filter: (proof: Proof) => boolean = () => true,
+): Promise<ProofSetVerification> {
+  const allProofs = toProofs(securedDocument)
+  if (allProofs.length === 0) {
+    return {
+      verified: false,
+      errors: [
+        new ProcessingError(ProcessingErrorCode.PROOF_VERIFICATION_ERROR, from, "The document has no proof to verify."),
+      ],
+      results: [],
+    }
+  }
+
+  const results: Array<ProofVerification> = []
+  for (const proof of allProofs) {
+    if (!filter(proof)) {
+      const errors = [
+        new ProcessingError(
+          ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+          from,
+          `The proof type ${proof.type} with cryptosuite ${proof.cryptosuite} is not verified by this suite.`,
+        ),
+      ]
+      results.push({ verified: false, errors, checks: [{ check: "cryptosuite", verified: false, errors }], proof })
+      continue
+    }
+
+    let input: Credential
+    try {
+      input = toSecuredInput(securedDocument, proof, ProcessingErrorCode.PROOF_VERIFICATION_ERROR, from)
+    } catch (error) {
+      // a dangling `previousProof` only fails the proof referring to it
+      const errors = [
+        error instanceof ProcessingError
+          ? error
+          : new ProcessingError(ProcessingErrorCode.PROOF_VERIFICATION_ERROR, from, `${error}`),
+      ]
+      results.push({ verified: false, errors, checks: [{ check: "previousProof", verified: false, errors }], proof })
+      continue
+    }
+    results.push({ ...await verify(input, proof), proof })
+  }
+
+  const verified = results.every((result) => result.verified)
+  const errors = results.flatMap((result) => result.errors ?? [])
+
+  let verifiedDocument: Credential | undefined
+  if (verified) {
+    verifiedDocument = results.length === 1 ? results[0].verifiedDocument : structuredClone(securedDocument)
+    delete verifiedDocument?.proof
+  }
+
+  return {
+    verified,
+    verifiedDocument,
+    errors: errors.length > 0 ? errors : undefined,
+    results,
+  }
+}
@@ -0,0 +1,131 @@
+import { ProcessingError, ProcessingErrorCode, type Proof } from "@herculas/vc-data-integrity"
+
+import type { ECKeypair } from "../key/keypair.ts"
+
+import * as SUITE_CONSTANT from "../constant/suite.ts"
+
+/**
+ * The time settings of a verifier. `clock` returns the current time, and defaults to the system clock. `clockSkew` is
+ * the tolerated difference in milliseconds between the clocks of the issuer and the verifier, and defaults to five
+ * minutes. If `strictRevocation` is set, a revoked key is rejected once its revocation time has passed on the clock,
+ * even for proofs claiming to be created earlier.
+ */
+export type ProofValidity = {
+  clock?: () => Date
+  clockSkew?: number
+  strictRevocation?: boolean
+}
+
+/**
+ * Check the validity period of a proof against the clock of the verifier. A proof whose `expires` time has passed is no
+ * longer valid, and a proof whose `created` time lies in the future beyond the tolerated clock skew is not valid yet.
+ *
+ * @param {Proof} proof The proof to check.
+ * @param {ProofValidity} validity The clock and the tolerated clock skew of the verifier.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Array<ProcessingError>} The errors found, empty if the proof is currently valid.
+ *
+ * @see https://www.w3.org/TR/vc-data-integrity/#proofs
+ */
+export function checkValidity(proof: Proof, validity: ProofValidity, from: string): Array<ProcessingError> {
+  const errors: Array<ProcessingError> = []
+  const now = _now(validity)
+
+  if (proof.expires !== undefined) {
+    const expires = Date.parse(proof.expires)
+    if (Number.isNaN(expires)) {
+      errors.push(
+        new ProcessingError(
+          ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+          from,
+          "The proof `expires` value is not a valid datetime.",
+        ),
+      )
+    } else if (expires <= now) {
+      errors.push(
+        new ProcessingError(
+          ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+          from,
+          `The proof expired at ${proof.expires}.`,
+        ),
+      )
+    }
+  }
+
+  if (proof.created !== undefined) {
+    const created = Date.parse(proof.created)
+    if (Number.isNaN(created)) {
+      errors.push(
+        new ProcessingError(
+          ProcessingErrorCode.MALFORMED_PROOF_ERROR,
+          from,
+          "The proof `created` value is not a valid datetime.",
+        ),
+      )
+    } else if (created > now + (validity.clockSkew ?? SUITE_CONSTANT.DEFAULT_CLOCK_SKEW)) {
+      errors.push(
+        new ProcessingError(
+          ProcessingErrorCode.PROOF_VERIFICATION_ERROR,
+          from,
+          `The proof is created at ${proof.created}, which is in the future.`,
+        ),
+      )
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Make sure the key of a verification method was usable when the proof was created. The key MUST NOT have expired or
+ * been revoked before the `created` time of the proof, or before the current time if the proof has no valid `created`
+ * time.
+ * A key revoked after the proof was created still verifies the proof, unless `strictRevocation` is set: the `created`
+ * time is signed by the key itself, so whoever holds a compromised key could backdate a proof to before its
+ * revocation.
+ *
+ * @param {ECKeypair} keypair The keypair imported from the verification method of the proof.
+ * @param {Proof} proof The proof to be verified with the keypair.
+ * @param {ProofValidity} validity The clock of the verifier, and whether revocation is strictly enforced.
+ * @param {string} from The name of the calling function, used in error messages.
+ */
+export function checkKeyValidity(keypair: ECKeypair, proof: Proof, validity: ProofValidity, from: string) {
+  const created = proof.created ? Date.parse(proof.created) : Number.NaN
+  const reference = Number.isNaN(created) ? _now(validity) : created
+
+  if (keypair.expires && keypair.expires.getTime() <= reference) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The verification method ${keypair.id} expired before the proof was created.`,
+    )
+  }
+
+  if (keypair.revoked && keypair.revoked.getTime() <= reference) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The verification method ${keypair.id} was revoked before the proof was created.`,
+    )
+  }
+
+  if (validity.strictRevocation && keypair.revoked && keypair.revoked.getTime() <= _now(validity)) {
+    throw new ProcessingError(
+      ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+      from,
+      `The verification method ${keypair.id} has been revoked.`,
+    )
+  }
+}
+
+/**
+ * Read the current time from the clock of the verifier.
+ *
+ * @param {ProofValidity} validity The clock of the verifier.
+ *
+ * @returns {number} The current time in milliseconds since the epoch.
+ */
+function _now(validity: ProofValidity): number {
+  return (validity.clock?.() ?? new Date()).getTime()
+}
@@ -0,0 +1,23 @@
+import { multi } from "@herculas/vc-data-integrity"
+
+/**
+ * Encode octets in base64url without padding, as required by JWK, JWS and JWE.
+ *
+ * @param {Uint8Array} bytes The octets to encode.
+ *
+ * @returns {string} The encoded string.
+ */
+export function encodeBase64url(bytes: Uint8Array): string {
+  return multi.base64url.encode(bytes).replace(/=+$/, "")
+}
+
+/**
+ * Decode a base64url string without padding.
+ *
+ * @param {string} encoded The encoded string.
+ *
+ * @returns {Uint8Array} The decoded octets.
+ */
+export function decodeBase64url(encoded: string): Uint8Array {
+  return multi.base64url.decode(encoded.padEnd(Math.ceil(encoded.length / 4) * 4, "="))
+}
@@ -28,9 +28,12 @@ export function constructHasher(curve: Curve): Hasher {
 export function curveToDigestAlgorithm(curve: Curve): AlgorithmIdentifier {
   switch (curve) {
     case Curve.P256:
+    case Curve.SECP256K1:
       return "SHA-256"
     case Curve.P384:
       return "SHA-384"
+    case Curve.P521:
+      return "SHA-512"
     default:
       throw new ImplementationError(
         ImplementationErrorCode.ENCODING_ERROR,
@@ -0,0 +1,195 @@
+import { ImplementationError, ImplementationErrorCode } from "@herculas/vc-data-integrity"
+
+/**
+ * The ASN.1 tags used by the DER structures handled in this library.
+ */
+export enum DerTag {
+  INTEGER = 0x02,
+  BIT_STRING = 0x03,
+  OCTET_STRING = 0x04,
+  NULL = 0x05,
+  OBJECT_IDENTIFIER = 0x06,
+  SEQUENCE = 0x30,
+  CONTEXT_0 = 0xa0,
+  CONTEXT_1 = 0xa1,
+}
+
+/**
+ * A single DER encoded element, consisting of its tag and the raw value octets.
+ */
+export type DerElement = {
+  tag: number
+  value: Uint8Array
+}
+
+/**
+ * Encode a DER element from a tag and its content octets. Multiple contents are concatenated in order, which is handy
+ * for constructing `SEQUENCE` and context-specific elements.
+ *
+ * @param {number} tag The ASN.1 tag of the element.
+ * @param {Array<Uint8Array>} contents The content octets of the element.
+ *
+ * @returns {Uint8Array} The DER encoded element.
+ */
+export function encodeElement(tag: number, ...contents: Array<Uint8Array>): Uint8Array {
+  const valueLength = contents.reduce((sum, content) => sum + content.length, 0)
+  const lengthBytes = _encodeLength(valueLength)
+
+  const encoded = new Uint8Array(1 + lengthBytes.length + valueLength)
+  encoded[0] = tag
+  encoded.set(lengthBytes, 1)
+
+  let offset = 1 + lengthBytes.length
+  for (const content of contents) {
+    encoded.set(content, offset)
+    offset += content.length
+  }
+
+  return encoded
+}
+
+/**
+ * Decode the DER element starting at the given offset.
+ *
+ * @param {Uint8Array} bytes The DER encoded octets.
+ * @param {number} [offset] The offset where the element starts, default to 0.
+ *
+ * @returns {DerElement & { end: number }} The decoded element, along with the offset right after it.
+ */
+export function decodeElement(bytes: Uint8Array, offset: number = 0): DerElement & { end: number } {
+  if (offset + 2 > bytes.length) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "utils/der#decodeElement",
+      "The DER element is truncated!",
+    )
+  }
+
+  const tag = bytes[offset]
+  let length = bytes[offset + 1]
+  let cursor = offset + 2
+
+  // long form length, the low 7 bits indicate the number of subsequent length octets
+  if (length & 0x80) {
+    const lengthOctets = length & 0x7f
+    if (lengthOctets === 0 || lengthOctets > 4 || cursor + lengthOctets > bytes.length) {
+      throw new ImplementationError(
+        ImplementationErrorCode.DECODING_ERROR,
+        "utils/der#decodeElement",
+        "The length of the DER element is malformed!",
+      )
+    }
+    length = 0
+    for (let i = 0; i < lengthOctets; i++) {
+      length = length * 256 + bytes[cursor + i]
+    }
+    cursor += lengthOctets
+  }
+
+  const end = cursor + length
+  if (end > bytes.length) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "utils/der#decodeElement",
+      "The DER element is truncated!",
+    )
+  }
+
+  return { tag, value: bytes.slice(cursor, end), end }
+}
+
+/**
+ * Decode a series of consecutive DER elements, typically the value of a `SEQUENCE` element.
+ *
+ * @param {Uint8Array} bytes The concatenated DER encoded elements.
+ *
+ * @returns {Array<DerElement>} The decoded elements.
+ */
+export function decodeElements(bytes: Uint8Array): Array<DerElement> {
+  const elements: Array<DerElement> = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const { tag, value, end } = decodeElement(bytes, offset)
+    elements.push({ tag, value })
+    offset = end
+  }
+  return elements
+}
+
+/**
+ * Decode a DER encoded `SEQUENCE` element into its fields.
+ *
+ * @param {Uint8Array} der The DER encoded `SEQUENCE` element.
+ * @param {string} from The name of the calling function, used in error messages.
+ *
+ * @returns {Array<DerElement>} The fields of the sequence.
+ */
+export function decodeSequence(der: Uint8Array, from: string): Array<DerElement> {
+  const element = decodeElement(der)
+  if (element.tag !== DerTag.SEQUENCE || element.end !== der.length) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      from,
+      "The DER structure is not a well-formed sequence!",
+    )
+  }
+  return decodeElements(element.value)
+}
+
+/**
+ * Encode a non-negative integer into the value octets of a DER `INTEGER` element.
+ *
+ * @param {number} value A non-negative safe integer.
+ *
+ * @returns {Uint8Array} The value octets in two's complement, with a leading zero octet if the high bit is set.
+ */
+export function encodeInteger(value: number): Uint8Array {
+  const octets: Array<number> = []
+  do {
+    octets.unshift(value & 0xff)
+    value = Math.floor(value / 256)
+  } while (value > 0)
+
+  if (octets[0] & 0x80) {
+    octets.unshift(0)
+  }
+  return new Uint8Array(octets)
+}
+
+/**
+ * Decode the value octets of a DER `INTEGER` element into a non-negative integer.
+ *
+ * @param {Uint8Array} bytes The value octets of the element.
+ *
+ * @returns {number} The decoded integer.
+ */
+export function decodeInteger(bytes: Uint8Array): number {
+  if (bytes.length === 0 || bytes[0] & 0x80 || bytes.length > 7) {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "utils/der#decodeInteger",
+      "The DER integer is empty, negative or too large!",
+    )
+  }
+  return bytes.reduce((value, byte) => value * 256 + byte, 0)
+}
+
+/**
+ * Encode the length octets of a DER element, in short form if possible and in long form otherwise.
+ *
+ * @param {number} length The length of the element value.
+ *
+ * @returns {Uint8Array} The length octets.
+ */
+function _encodeLength(length: number): Uint8Array {
+  if (length < 0x80) {
+    return new Uint8Array([length])
+  }
+
+  const octets: Array<number> = []
+  while (length > 0) {
+    octets.unshift(length & 0xff)
+    length = Math.floor(length / 256)
+  }
+  return new Uint8Array([0x80 | octets.length, ...octets])
+}
@@ -0,0 +1,253 @@
+import { format, ImplementationError, ImplementationErrorCode } from "@herculas/vc-data-integrity"
+
+import type { CurveFn } from "@noble/curves/abstract/weierstrass"
+import { p256, p384, p521 } from "@noble/curves/nist"
+import { secp256k1 } from "@noble/curves/secp256k1"
+
+import { Curve, CURVE_PARAMETER, type CurveParameter } from "../constant/curve.ts"
+
+/**
+ * A point on an elliptic curve in affine coordinates. The point at infinity is represented by `null`.
+ */
+export type Point = { x: bigint; y: bigint } | null
+
+/**
+ * The implementations of the supported curves, which perform all the point arithmetic in this library. Wherever a
+ * private scalar is involved, the arithmetic is constant-time.
+ */
+const _implementations: Map<Curve, CurveFn> = new Map([
+  [Curve.P256, p256],
+  [Curve.P384, p384],
+  [Curve.P521, p521],
+  [Curve.SECP256K1, secp256k1],
+])
+
+/**
+ * Retrieve the domain parameters of a curve.
+ *
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {CurveParameter} The domain parameters of the curve.
+ */
+export function curveToParameter(curve: Curve): CurveParameter {
+  const parameter = CURVE_PARAMETER.get(curve)
+  if (!parameter) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "utils/ec#curveToParameter",
+      `The curve ${curve} is not supported by this implementation!`,
+    )
+  }
+  return parameter
+}
+
+/**
+ * Calculate the length of a field element of a curve in octets, which is also the length of a private scalar.
+ *
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {number} The length of a field element in octets.
+ */
+export function fieldLength(curve: Curve): number {
+  return Math.ceil(curveToParameter(curve).p.toString(2).length / 8)
+}
+
+/**
+ * Interpret an octet array as a big-endian unsigned integer.
+ *
+ * @param {Uint8Array} bytes The octet array.
+ *
+ * @returns {bigint} The integer.
+ */
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.length === 0 ? 0n : BigInt(`0x${format.bytesToHex(bytes)}`)
+}
+
+/**
+ * Encode a non-negative integer as a big-endian octet array of fixed length.
+ *
+ * @param {bigint} value The integer.
+ * @param {number} length The length of the output in octets.
+ *
+ * @returns {Uint8Array} The octet array, left-padded with zeros.
+ */
+export function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const hex = value.toString(16).padStart(length * 2, "0")
+  if (value < 0n || hex.length > length * 2) {
+    throw new ImplementationError(
+      ImplementationErrorCode.ENCODING_ERROR,
+      "utils/ec#bigIntToBytes",
+      `The integer does not fit into ${length} octets!`,
+    )
+  }
+  return format.hexToBytes(hex)
+}
+
+/**
+ * Check whether a point lies on a curve. The point at infinity is not considered to be on the curve, as it is never a
+ * valid public key.
+ *
+ * @param {Point} point A point in affine coordinates.
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {boolean} `true` if the point satisfies the curve equation with coordinates in `[0, p - 1]`.
+ */
+export function isOnCurve(point: Point, curve: Curve): boolean {
+  if (!point) {
+    return false
+  }
+  try {
+    _implementation(curve).ProjectivePoint.fromAffine(point).assertValidity()
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Calculate the public point `d * G` corresponding to a private key material `d`, where `G` is the base point of the
+ * curve. The multiplication is performed by the constant-time implementation of `@noble/curves`, as the private scalar
+ * is secret.
+ *
+ * @param {Uint8Array} material The private key material, i.e., a big-endian scalar in `[1, n - 1]`.
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {Point} The public point, which is never the point at infinity.
+ */
+export function materialToPoint(material: Uint8Array, curve: Curve): { x: bigint; y: bigint } {
+  let encoded: Uint8Array
+  try {
+    encoded = _implementation(curve).getPublicKey(material, false)
+  } catch {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "utils/ec#materialToPoint",
+      `The private scalar is out of the range of the ${curve} curve!`,
+    )
+  }
+  return decodePoint(encoded, curve)
+}
+
+/**
+ * Encode a point on a curve into an octet string, as specified in SEC 1 section 2.3.3. A compressed point consists of a
+ * `0x02` or `0x03` octet indicating the parity of `y`, followed by `x`. An uncompressed point consists of a `0x04`
+ * octet followed by `x` and `y`.
+ *
+ * @param {Point} point A point in affine coordinates, which MUST lie on the curve.
+ * @param {Curve} curve An elliptic curve.
+ * @param {boolean} [compressed] Whether to encode the point in compressed form, default to `true`.
+ *
+ * @returns {Uint8Array} The encoded point.
+ *
+ * @see https://www.secg.org/sec1-v2.pdf
+ */
+export function encodePoint(point: Point, curve: Curve, compressed: boolean = true): Uint8Array {
+  if (!isOnCurve(point, curve)) {
+    throw new ImplementationError(
+      ImplementationErrorCode.ENCODING_ERROR,
+      "utils/ec#encodePoint",
+      `The point does not lie on the ${curve} curve!`,
+    )
+  }
+
+  const length = fieldLength(curve)
+  const x = bigIntToBytes(point!.x, length)
+  if (compressed) {
+    return format.concatenate(new Uint8Array([point!.y & 1n ? 0x03 : 0x02]), x)
+  }
+  return format.concatenate(new Uint8Array([0x04]), x, bigIntToBytes(point!.y, length))
+}
+
+/**
+ * Decode a point on a curve from an octet string in either compressed or uncompressed form, as specified in SEC 1
+ * section 2.3.4. A compressed point is decompressed by the implementation of `@noble/curves`, and the decoded point is
+ * validated to lie on the curve.
+ *
+ * @param {Uint8Array} bytes The encoded point.
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {{ x: bigint, y: bigint }} The decoded point in affine coordinates.
+ *
+ * @see https://www.secg.org/sec1-v2.pdf
+ */
+export function decodePoint(bytes: Uint8Array, curve: Curve): { x: bigint; y: bigint } {
+  try {
+    return _implementation(curve).ProjectivePoint.fromHex(bytes).toAffine()
+  } catch {
+    throw new ImplementationError(
+      ImplementationErrorCode.DECODING_ERROR,
+      "utils/ec#decodePoint",
+      `The encoded point is not a valid ${curve} curve point!`,
+    )
+  }
+}
+
+/**
+ * Sign a message digest with ECDSA, as specified in SEC 1 section 4.1.3, using the constant-time implementation of
+ * `@noble/curves`. The nonce is derived from the private key and the digest as specified in RFC 6979, and unless
+ * `deterministic` is set, fresh random octets are mixed into the derivation as well, so that signing the same digest
+ * twice yields different signatures.
+ *
+ * @param {Uint8Array} digest The message digest.
+ * @param {Uint8Array} material The private key material.
+ * @param {Curve} curve An elliptic curve.
+ * @param {boolean} [deterministic] Whether to derive the nonce from the private key and the digest alone, default to
+ * `false`.
+ *
+ * @returns {Uint8Array} The signature in IEEE P1363 format, i.e., `r || s`.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6979
+ */
+export function signDigest(
+  digest: Uint8Array,
+  material: Uint8Array,
+  curve: Curve,
+  deterministic: boolean = false,
+): Uint8Array {
+  const options = { lowS: false, extraEntropy: !deterministic }
+  return _implementation(curve).sign(digest, material, options).toCompactRawBytes()
+}
+
+/**
+ * Verify an ECDSA signature on a message digest, as specified in SEC 1 section 4.1.4, using the implementation of
+ * `@noble/curves`. Signatures in the high-S form are accepted, as the normalization is left to the callers.
+ *
+ * @param {Uint8Array} digest The message digest.
+ * @param {Uint8Array} signature The signature in IEEE P1363 format, i.e., `r || s`.
+ * @param {Point} point The public point, which MUST lie on the curve.
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {boolean} `true` if the signature is valid.
+ *
+ * @see https://www.secg.org/sec1-v2.pdf
+ */
+export function verifyDigest(digest: Uint8Array, signature: Uint8Array, point: Point, curve: Curve): boolean {
+  if (!isOnCurve(point, curve)) {
+    return false
+  }
+  const options = { lowS: false, prehash: false, format: "compact" as const }
+  try {
+    return _implementation(curve).verify(signature, digest, encodePoint(point, curve, false), options)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Retrieve the constant-time implementation of a curve.
+ *
+ * @param {Curve} curve An elliptic curve.
+ *
+ * @returns {CurveFn} The implementation of the curve from `@noble/curves`.
+ */
+function _implementation(curve: Curve): CurveFn {
+  const implementation = _implementations.get(curve)
+  if (!implementation) {
+    throw new ImplementationError(
+      ImplementationErrorCode.INVALID_KEYPAIR_CONTENT,
+      "utils/ec#_implementation",
+      `The curve ${curve} is not supported by this implementation!`,
+    )
+  }
+  return implementation
+}
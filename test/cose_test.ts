@@ -0,0 +1,97 @@
+import { assert, assertEquals } from "@std/assert"
+import { type Credential, type ProcessingError, ProcessingErrorCode } from "@herculas/vc-data-integrity"
+import * as cbor from "cbor2"
+
+import { signCose, verifyCose } from "../src/envelope/cose.ts"
+import { testLoader } from "./mock/loader.ts"
+
+import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
+
+const P256_METHOD =
+  "did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP#zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP"
+const P384_METHOD =
+  "did:key:z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ#z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ"
+
+Deno.test("VC-COSE credential signing and verification (P-256, P-384)", async () => {
+  const credential = structuredClone(UNSECURED_CRED_1.default) as Credential
+
+  for (const [verificationMethod, alg] of [[P256_METHOD, -7], [P384_METHOD, -35]] as const) {
+    const secured = await signCose(credential, { verificationMethod, documentLoader: testLoader })
+
+    const sign1 = cbor.decode(secured) as cbor.Tag
+    assertEquals(sign1.tag, 18)
+    const [protectedHeader, , payload] = sign1.contents as Array<Uint8Array>
+    assertEquals(
+      cbor.decode(protectedHeader),
+      new Map<number, unknown>([
+        [1, alg],
+        [3, "application/vc"],
+        [4, new TextEncoder().encode(verificationMethod)],
+        [16, "application/vc+cose"],
+      ]),
+    )
+    assertEquals(JSON.parse(new TextDecoder().decode(payload)), credential)
+
+    const result = await verifyCose(secured, { documentLoader: testLoader, expectedType: "application/vc+cose" })
+    assert(result.verified)
+    assertEquals(result.verifiedDocument, credential)
+    assertEquals(result.checks.map(({ check }) => check), ["envelope", "verificationMethod", "signature"])
+  }
+})
+
+Deno.test("VC-COSE presentation signing and verification", async () => {
+  const presentation = {
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    type: ["VerifiablePresentation"],
+  }
+
+  const secured = await signCose(presentation, { verificationMethod: P256_METHOD, documentLoader: testLoader })
+  assert((await verifyCose(secured, { documentLoader: testLoader })).verified)
+
+  // a presentation is not accepted where a credential is expected
+  const mismatched = await verifyCose(secured, { documentLoader: testLoader, expectedType: "application/vc+cose" })
+  assert(!mismatched.verified)
+  assertEquals((mismatched.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+})
+
+Deno.test("VC-COSE tampered, untagged and malformed structures", async () => {
+  const credential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const secured = await signCose(credential, { verificationMethod: P256_METHOD, documentLoader: testLoader })
+  const [protectedHeader, unprotectedHeader, , signature] = (cbor.decode(secured) as cbor.Tag).contents as Array<
+    Uint8Array
+  >
+
+  // an untagged structure is accepted as well
+  const untagged = cbor.encode((cbor.decode(secured) as cbor.Tag).contents)
+  assert((await verifyCose(untagged, { documentLoader: testLoader })).verified)
+
+  // a replaced payload fails the signature check
+  const payload = new TextEncoder().encode(JSON.stringify({ ...credential, name: "Tampered" }))
+  const tampered = await verifyCose(
+    cbor.encode(new cbor.Tag(18, [protectedHeader, unprotectedHeader, payload, signature])),
+    { documentLoader: testLoader },
+  )
+  assert(!tampered.verified)
+  assertEquals(tampered.checks.filter(({ verified }) => !verified).map(({ check }) => check), ["signature"])
+
+  // a structure that is not a COSE_Sign1 fails the envelope check
+  const malformed = await verifyCose(cbor.encode([protectedHeader, payload]), { documentLoader: testLoader })
+  assertEquals(malformed.checks.map(({ check }) => check), ["envelope"])
+  assertEquals(malformed.verifiedDocument, undefined)
+
+  // a protected header that is not a byte string, an unprotected header that is not a map, and a critical header
+  // parameter are all malformed
+  const header = cbor.decode(protectedHeader, { preferMap: true }) as Map<number, unknown>
+  const critical = cbor.encode(new Map([...header, [2, [-65537]]]))
+  for (
+    const components of [
+      [header, unprotectedHeader, payload, signature],
+      [protectedHeader, [], payload, signature],
+      [critical, unprotectedHeader, payload, signature],
+    ]
+  ) {
+    const result = await verifyCose(cbor.encode(new cbor.Tag(18, components)), { documentLoader: testLoader })
+    assertEquals(result.checks.map(({ check }) => check), ["envelope"])
+    assertEquals((result.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+  }
+})
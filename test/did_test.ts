@@ -0,0 +1,133 @@
+import { assert, assertEquals, assertFalse, assertRejects } from "@std/assert"
+import type {
+  CIDDocument,
+  Credential,
+  Proof,
+  VerificationMethodJwk,
+  VerificationMethodMultibase,
+} from "@herculas/vc-data-integrity"
+
+import { Curve } from "../src/constant/curve.ts"
+import { createDidJwk, didJwkLoader, resolveDidJwk } from "../src/did/jwk.ts"
+import { didKeyLoader, resolveDidKey } from "../src/did/key.ts"
+import { ECKeypair } from "../src/key/keypair.ts"
+import { EcdsaJcs2019 } from "../src/suite/jcs.ts"
+import { LocalSigner } from "../src/key/signer.ts"
+import { encodeBase64url } from "../src/utils/base64url.ts"
+import { testLoader } from "./mock/loader.ts"
+
+import * as CID_DOCUMENT_1 from "./mock/cid-1.json" with { type: "json" }
+import * as CID_DOCUMENT_2 from "./mock/cid-2.json" with { type: "json" }
+import * as CID_DOCUMENT_4 from "./mock/cid-4.json" with { type: "json" }
+import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
+import * as PROOF_OPTIONS_3 from "./mock/proof-options-3.json" with { type: "json" }
+
+Deno.test("did:key resolution (P-256, P-384 and secp256k1)", async () => {
+  const documents = [CID_DOCUMENT_1.default, CID_DOCUMENT_2.default, CID_DOCUMENT_4.default] as Array<CIDDocument>
+  for (const expected of documents) {
+    const resolved = await resolveDidKey(expected.id!)
+    const expectedMethod = expected.verificationMethod![0] as VerificationMethodMultibase
+    const resolvedMethod = resolved.verificationMethod![0] as VerificationMethodMultibase
+
+    assertEquals(resolved.id, expected.id)
+    assertEquals(resolvedMethod.id, expectedMethod.id)
+    assertEquals(resolvedMethod.controller, expectedMethod.controller)
+    assertEquals(resolvedMethod.publicKeyMultibase, expectedMethod.publicKeyMultibase)
+    assertFalse("secretKeyMultibase" in resolvedMethod)
+    assertEquals(resolved.assertionMethod, expected.assertionMethod)
+    assertEquals(resolved.authentication, expected.assertionMethod)
+  }
+})
+
+Deno.test("did:key resolution: malformed identifiers", async () => {
+  await assertRejects(() => resolveDidKey("did:example:1145141919810"))
+  await assertRejects(() => resolveDidKey("did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK"))
+  await assertRejects(() => resolveDidKey("did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYz"))
+})
+
+Deno.test("ECDSA-JCS-2019 proof verification with did:key loader", async () => {
+  const keypair = new ECKeypair(Curve.P384)
+  await keypair.initialize()
+  const fingerprint = await keypair.generateFingerprint()
+  keypair.controller = `did:key:${fingerprint}`
+  keypair.id = `${keypair.controller}#${fingerprint}`
+
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+  proofOptions.verificationMethod = keypair.id
+
+  const documentLoader = didKeyLoader(testLoader)
+  const signer = new LocalSigner(keypair)
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader, signer })
+
+  const securedCredential = structuredClone(unsecuredCredential)
+  securedCredential.proof = proof
+
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader })
+  assert(result.verified)
+})
+
+Deno.test("did:jwk resolution", async () => {
+  const did = "did:jwk:eyJjcnYiOiJQLTI1NiIsImt0eSI6IkVDIiwieCI6ImFjYklRaXVNczNpOF91c3pFakoydHBUdFJNNEVVM3l6OTFQSDZDZE" +
+    "gyVjAiLCJ5IjoiX0tjeUxqOXZXTXB0bm1LdG00NkdxRHo4d2Y3NEk1TEtncmwyR3pIM25TRSJ9"
+
+  const resolved = await resolveDidJwk(`${did}#0`)
+  const method = resolved.verificationMethod![0] as VerificationMethodJwk
+
+  assertEquals(resolved.id, did)
+  assertEquals(method.id, `${did}#0`)
+  assertEquals(method.type, "JsonWebKey")
+  assertEquals(method.publicKeyJwk!.x, "acbIQiuMs3i8_uszEjJ2tpTtRM4EU3yz91PH6CdH2V0")
+  assertEquals(resolved.assertionMethod, [`${did}#0`])
+
+  const keypair = await ECKeypair.import(method)
+  assertEquals(keypair.curve, Curve.P256)
+})
+
+Deno.test("did:jwk creation and resolution", async () => {
+  for (const curve of [Curve.P256, Curve.P384, Curve.P521]) {
+    const keypair = new ECKeypair(curve)
+    await keypair.initialize()
+
+    const did = await createDidJwk(keypair)
+    assert(did.startsWith("did:jwk:"))
+    assertFalse(did.includes("="))
+
+    const resolved = await resolveDidJwk(did)
+    const imported = await ECKeypair.import(resolved.verificationMethod![0])
+    assertEquals(imported.curve, curve)
+    assert(await imported.verifyFingerprint(await keypair.generateFingerprint()))
+  }
+})
+
+Deno.test("did:jwk resolution: malformed identifiers", async () => {
+  const keypair = new ECKeypair(Curve.P256)
+  await keypair.initialize()
+  const jwk = await crypto.subtle.exportKey("jwk", keypair.privateKey!)
+  const encoded = encodeBase64url(new TextEncoder().encode(JSON.stringify(jwk)))
+
+  await assertRejects(() => resolveDidJwk(`did:jwk:${encoded}`))
+  await assertRejects(() => resolveDidJwk("did:jwk:bm90IGEgandr"))
+  await assertRejects(() => resolveDidJwk("did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP"))
+})
+
+Deno.test("ECDSA-JCS-2019 proof verification with did:jwk loader", async () => {
+  const keypair = new ECKeypair(Curve.P256)
+  await keypair.initialize()
+  keypair.controller = await createDidJwk(keypair)
+  keypair.id = `${keypair.controller}#0`
+
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+  proofOptions.verificationMethod = keypair.id
+
+  const documentLoader = didJwkLoader(didKeyLoader(testLoader))
+  const signer = new LocalSigner(keypair)
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader, signer })
+
+  const securedCredential = structuredClone(unsecuredCredential)
+  securedCredential.proof = proof
+
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader })
+  assert(result.verified)
+})
@@ -0,0 +1,81 @@
+import { assert, assertEquals } from "@std/assert"
+import { type Credential, type ProcessingError, ProcessingErrorCode } from "@herculas/vc-data-integrity"
+
+import { signJose, verifyJose } from "../src/envelope/jose.ts"
+import { decodeBase64url, encodeBase64url } from "../src/utils/base64url.ts"
+import { testLoader } from "./mock/loader.ts"
+
+import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
+
+const P256_METHOD =
+  "did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP#zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP"
+const P384_METHOD =
+  "did:key:z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ#z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ"
+
+function decodeHeader(jws: string) {
+  const encoded = jws.split(".")[0]
+  return JSON.parse(
+    new TextDecoder().decode(decodeBase64url(encoded)),
+  )
+}
+
+Deno.test("VC-JOSE credential signing and verification (P-256, P-384)", async () => {
+  const credential = structuredClone(UNSECURED_CRED_1.default) as Credential
+
+  for (const [verificationMethod, alg] of [[P256_METHOD, "ES256"], [P384_METHOD, "ES384"]]) {
+    const jws = await signJose(credential, { verificationMethod, documentLoader: testLoader })
+    assertEquals(decodeHeader(jws), { alg, kid: verificationMethod, typ: "vc+jwt" })
+
+    const result = await verifyJose(jws, { documentLoader: testLoader, expectedType: "vc+jwt" })
+    assert(result.verified)
+    assertEquals(result.verifiedDocument, credential)
+    assertEquals(result.checks.map(({ check }) => check), ["envelope", "verificationMethod", "signature"])
+  }
+
+  // the same key and credential always yield the same JWS in the deterministic mode
+  const options = { verificationMethod: P256_METHOD, documentLoader: testLoader, deterministic: true }
+  assertEquals(await signJose(credential, options), await signJose(credential, options))
+})
+
+Deno.test("VC-JOSE presentation signing and verification", async () => {
+  const presentation = {
+    "@context": ["https://www.w3.org/ns/credentials/v2"],
+    type: ["VerifiablePresentation"],
+  }
+
+  const jws = await signJose(presentation, { verificationMethod: P256_METHOD, documentLoader: testLoader })
+  assertEquals(decodeHeader(jws).typ, "vp+jwt")
+  assert((await verifyJose(jws, { documentLoader: testLoader })).verified)
+
+  // a presentation is not accepted where a credential is expected
+  const mismatched = await verifyJose(jws, { documentLoader: testLoader, expectedType: "vc+jwt" })
+  assert(!mismatched.verified)
+  assertEquals((mismatched.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+
+  // the P-384 key is not authorized for authentication by its controller
+  const unauthorized = await signJose(presentation, { verificationMethod: P384_METHOD, documentLoader: testLoader })
+  const unauthorizedResult = await verifyJose(unauthorized, { documentLoader: testLoader })
+  assertEquals(
+    (unauthorizedResult.errors![0] as ProcessingError).code,
+    ProcessingErrorCode.INVALID_VERIFICATION_METHOD,
+  )
+})
+
+Deno.test("VC-JOSE tampered and malformed envelopes", async () => {
+  const credential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const jws = await signJose(credential, { verificationMethod: P256_METHOD, documentLoader: testLoader })
+  const [header, , signature] = jws.split(".")
+
+  // a replaced payload fails the signature check
+  const payload = encodeBase64url(new TextEncoder().encode(JSON.stringify({ ...credential, name: "Tampered" })))
+  const tampered = await verifyJose(`${header}.${payload}.${signature}`, {
+    documentLoader: testLoader,
+  })
+  assert(!tampered.verified)
+  assertEquals(tampered.checks.filter(({ verified }) => !verified).map(({ check }) => check), ["signature"])
+
+  // a JWS that is not in compact form fails the envelope check
+  const malformed = await verifyJose(`${header}.${signature}`, { documentLoader: testLoader })
+  assertEquals(malformed.checks.map(({ check }) => check), ["envelope"])
+  assertEquals(malformed.verifiedDocument, undefined)
+})
@@ -1,15 +1,29 @@
-import { assert } from "@std/assert"
-import type { Credential, Proof } from "@herculas/vc-data-integrity"
+import { assert, assertEquals, assertRejects } from "@std/assert"
+import {
+  type CIDDocument,
+  type Credential,
+  format,
+  multi,
+  type ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+} from "@herculas/vc-data-integrity"
 
-import { Curve } from "../src/constant/curve.ts"
+import { Curve, CURVE_PARAMETER } from "../src/constant/curve.ts"
+import { isLowS, p1363ToDer } from "../src/key/signature.ts"
+import { addProof } from "../src/suite/set.ts"
+import { signPresentation, verifyPresentation } from "../src/suite/presentation.ts"
 import { testLoader } from "./mock/loader.ts"
 
+import * as CID_DOCUMENT_1 from "./mock/cid-1.json" with { type: "json" }
 import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
 
 import { EcdsaJcs2019 } from "../src/suite/jcs.ts"
 
 import * as PROOF_OPTIONS_3 from "./mock/proof-options-3.json" with { type: "json" }
 import * as PROOF_OPTIONS_4 from "./mock/proof-options-4.json" with { type: "json" }
+import * as PROOF_OPTIONS_8 from "./mock/proof-options-8.json" with { type: "json" }
+import * as PROOF_OPTIONS_10 from "./mock/proof-options-10.json" with { type: "json" }
 
 Deno.test("ECDSA-JCS-2019 proof creation and verification encapsulated (P-256)", async () => {
   const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
@@ -44,3 +58,386 @@ Deno.test("ECDSA-JCS-2019 proof creation and verification encapsulated (P-384)",
 
   assert(result.verified)
 })
+
+Deno.test("ECDSA-JCS-2019 proof creation and verification encapsulated (P-521)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_8.default) as Proof
+
+  const curve = Curve.P521
+  const proveOptions = { curve, proof: proofOptions, documentLoader: testLoader }
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, proveOptions)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const verifyOptions = { curve, documentLoader: testLoader }
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, verifyOptions)
+
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-JCS-2019 proof creation and verification encapsulated (secp256k1)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_10.default) as Proof
+
+  const curve = Curve.SECP256K1
+  const proveOptions = { curve, proof: proofOptions, documentLoader: testLoader }
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, proveOptions)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const verifyOptions = { curve, documentLoader: testLoader }
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, verifyOptions)
+
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-JCS-2019 proof creation and verification with inferred curve", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_4.default) as Proof
+
+  const proveOptions = { proof: proofOptions, documentLoader: testLoader }
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, proveOptions)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const verifyOptions = { documentLoader: testLoader }
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, verifyOptions)
+
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-JCS-2019 deterministic proof creation and verification", async () => {
+  for (const proofOptions of [PROOF_OPTIONS_3.default, PROOF_OPTIONS_4.default, PROOF_OPTIONS_10.default]) {
+    const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+
+    const proveOptions = {
+      proof: structuredClone(proofOptions) as Proof,
+      documentLoader: testLoader,
+      deterministic: true,
+    }
+    const proof1 = await EcdsaJcs2019.createProof(unsecuredCredential, proveOptions)
+    const proof2 = await EcdsaJcs2019.createProof(unsecuredCredential, proveOptions)
+    assertEquals(proof1, proof2)
+
+    const securedCredential = unsecuredCredential
+    securedCredential.proof = proof1
+
+    const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+    assert(result.verified)
+  }
+})
+
+Deno.test("ECDSA-JCS-2019 proof verification with DER encoded signature", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_4.default) as Proof
+
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader: testLoader })
+  const der = p1363ToDer(multi.base58btc.decode(proof.proofValue!))
+  proof.proofValue = multi.base58btc.encode(der)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const strict = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(!strict.verified)
+  assertEquals((strict.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader, lenient: true })
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-JCS-2019 proof creation and verification with low-S signature", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+
+  const curve = Curve.P256
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader: testLoader })
+  const signature = multi.base58btc.decode(proof.proofValue!)
+  assert(isLowS(signature, curve))
+
+  // the malleated signature `(r, n - s)` is valid as well, but only accepted if the low-S form is not required
+  const n = CURVE_PARAMETER.get(curve)!.n
+  const s = BigInt(`0x${format.bytesToHex(signature.slice(32))}`)
+  const malleated = format.concatenate(
+    signature.slice(0, 32),
+    format.hexToBytes((n - s).toString(16).padStart(64, "0")),
+  )
+  proof.proofValue = multi.base58btc.encode(malleated)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(result.verified)
+  const strict = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader, requireLowS: true })
+  assert(!strict.verified)
+  assertEquals((strict.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+})
+
+Deno.test("ECDSA-JCS-2019 proof creation with mismatched curve", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_4.default) as Proof
+
+  const proveOptions = { curve: Curve.P256, proof: proofOptions, documentLoader: testLoader }
+  await assertRejects(() => EcdsaJcs2019.createProof(unsecuredCredential, proveOptions))
+})
+
+Deno.test("ECDSA-JCS-2019 proof set and proof chain", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const firstOptions = { ...structuredClone(PROOF_OPTIONS_3.default), id: "urn:uuid:first" } as Proof
+  const secondOptions = { ...structuredClone(PROOF_OPTIONS_4.default), id: "urn:uuid:second" } as Proof
+  const chainedOptions = {
+    ...structuredClone(PROOF_OPTIONS_10.default),
+    id: "urn:uuid:chained",
+    previousProof: "urn:uuid:first",
+  } as Proof
+
+  // a proof set of two independent proofs
+  const first = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: firstOptions, documentLoader: testLoader })
+  let securedCredential = addProof(unsecuredCredential, first)
+  const second = await EcdsaJcs2019.createProof(securedCredential, { proof: secondOptions, documentLoader: testLoader })
+  securedCredential = addProof(securedCredential, second)
+
+  const setResult = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(setResult.verified)
+  assertEquals(setResult.results.map((result) => result.verified), [true, true])
+  assertEquals(setResult.verifiedDocument, unsecuredCredential)
+
+  // a proof chain, where the third proof endorses the first one
+  const chained = await EcdsaJcs2019.createProof(securedCredential, {
+    proof: chainedOptions,
+    documentLoader: testLoader,
+  })
+  securedCredential = addProof(securedCredential, chained)
+
+  const chainResult = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(chainResult.verified)
+  assertEquals(chainResult.results.length, 3)
+
+  // removing the endorsed proof breaks the chain, but not the other proof
+  const brokenCredential = structuredClone(securedCredential)
+  brokenCredential.proof = [second, chained]
+  const brokenResult = await EcdsaJcs2019.verifyProof(brokenCredential, { documentLoader: testLoader })
+  assert(!brokenResult.verified)
+  assertEquals(brokenResult.results.map((result) => result.verified), [true, false])
+
+  // tampering with the endorsed proof invalidates the proof chained to it
+  const tamperedCredential = structuredClone(securedCredential)
+  tamperedCredential.proof[0].created = "2024-01-01T00:00:00Z"
+  const tamperedResult = await EcdsaJcs2019.verifyProof(tamperedCredential, { documentLoader: testLoader })
+  assertEquals(tamperedResult.results.map((result) => result.verified), [false, true, false])
+
+  // a previous proof must exist when creating a chained proof
+  const danglingOptions = { ...chainedOptions, previousProof: "urn:uuid:missing" }
+  await assertRejects(() =>
+    EcdsaJcs2019.createProof(securedCredential, { proof: danglingOptions, documentLoader: testLoader })
+  )
+})
+
+Deno.test("ECDSA-JCS-2019 presentation with challenge and domain", async () => {
+  const credential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  credential.proof = await EcdsaJcs2019.createProof(credential, {
+    proof: structuredClone(PROOF_OPTIONS_4.default) as Proof,
+    documentLoader: testLoader,
+  })
+  const presentation = {
+    "@context": credential["@context"],
+    type: ["VerifiablePresentation"],
+    verifiableCredential: [credential],
+  }
+
+  const challenge = "1f44d55f-f161-4938-a659-f8026467f126"
+  const domain = "https://verifier.example"
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+  const securedPresentation = await signPresentation(EcdsaJcs2019, presentation, {
+    proof: proofOptions,
+    challenge,
+    domain,
+    documentLoader: testLoader,
+  })
+  assertEquals(securedPresentation.proof.proofPurpose, "authentication")
+  assertEquals(securedPresentation.proof.challenge, challenge)
+
+  const result = await verifyPresentation(EcdsaJcs2019, securedPresentation, {
+    challenge,
+    domain,
+    documentLoader: testLoader,
+  })
+  assert(result.verified)
+
+  // a different challenge or domain, e.g., in a replay to another verifier, fails
+  const replayed = await verifyPresentation(EcdsaJcs2019, securedPresentation, {
+    challenge: "another challenge",
+    domain: "https://another.example",
+    documentLoader: testLoader,
+  })
+  assert(!replayed.verified)
+  assertEquals(replayed.errors!.map((error) => (error as ProcessingError).code), [
+    ProcessingErrorCode.INVALID_CHALLENGE_ERROR,
+    ProcessingErrorCode.INVALID_DOMAIN_ERROR,
+  ])
+
+  // a proof without a challenge, or with another purpose, fails if a challenge is expected
+  const securedCredential = structuredClone(credential)
+  const missing = await EcdsaJcs2019.verifyProof(securedCredential, {
+    documentLoader: testLoader,
+    expectedChallenge: challenge,
+  })
+  assert(!missing.verified)
+  const purpose = await verifyPresentation(EcdsaJcs2019, securedCredential, { challenge, documentLoader: testLoader })
+  assertEquals(purpose.errors!.map((error) => (error as ProcessingError).code), [
+    ProcessingErrorCode.MISMATCHED_PROOF_PURPOSE_ERROR,
+    ProcessingErrorCode.INVALID_CHALLENGE_ERROR,
+  ])
+
+  // the challenge is covered by the signature
+  const tampered = structuredClone(securedPresentation)
+  tampered.proof.challenge = "another challenge"
+  const tamperedResult = await verifyPresentation(EcdsaJcs2019, tampered, {
+    challenge: "another challenge",
+    documentLoader: testLoader,
+  })
+  assert(!tamperedResult.verified)
+})
+
+Deno.test("ECDSA-JCS-2019 verification method authorized for the proof purpose", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = { ...structuredClone(PROOF_OPTIONS_3.default), proofPurpose: "capabilityInvocation" } as Proof
+
+  // the controller document only lists the method under `assertionMethod` and `authentication`
+  const securedCredential = addProof(
+    unsecuredCredential,
+    await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader: testLoader }),
+  )
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(!result.verified)
+  assertEquals((result.errors![0] as ProcessingError).code, ProcessingErrorCode.INVALID_VERIFICATION_METHOD)
+
+  // `verificationMethod` lists every method of the controller, but is not a verification relationship
+  const listedOptions = { ...structuredClone(PROOF_OPTIONS_3.default), proofPurpose: "verificationMethod" } as Proof
+  const listedCredential = addProof(
+    unsecuredCredential,
+    await EcdsaJcs2019.createProof(unsecuredCredential, { proof: listedOptions, documentLoader: testLoader }),
+  )
+  const listed = await EcdsaJcs2019.verifyProof(listedCredential, { documentLoader: testLoader })
+  assert(!listed.verified)
+  assertEquals((listed.errors![0] as ProcessingError).code, ProcessingErrorCode.MISMATCHED_PROOF_PURPOSE_ERROR)
+
+  // a controller document that does not match the controller of the method
+  const forgedLoader = (url: string) =>
+    url.startsWith("did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP") && !url.includes("#")
+      ? Promise.resolve({ documentUrl: url, document: { id: "did:example:forged", assertionMethod: [] } })
+      : testLoader(url)
+  const authorized = addProof(
+    unsecuredCredential,
+    await EcdsaJcs2019.createProof(unsecuredCredential, {
+      proof: structuredClone(PROOF_OPTIONS_3.default) as Proof,
+      documentLoader: testLoader,
+    }),
+  )
+  assert(!(await EcdsaJcs2019.verifyProof(authorized, { documentLoader: forgedLoader })).verified)
+})
+
+Deno.test("ECDSA-JCS-2019 proof expiry, future creation and key validity", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = { ...structuredClone(PROOF_OPTIONS_3.default), expires: "2024-02-24T23:36:38Z" } as Proof
+  const securedCredential = addProof(
+    unsecuredCredential,
+    await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader: testLoader }),
+  )
+
+  // the proof is created at 2023-02-24T23:36:38Z and expires a year later
+  const clockAt = (time: string) => () => new Date(time)
+  const valid = await EcdsaJcs2019.verifyProof(securedCredential, {
+    documentLoader: testLoader,
+    clock: clockAt("2023-06-01T00:00:00Z"),
+  })
+  assert(valid.verified)
+
+  const expired = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(!expired.verified)
+  assertEquals((expired.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+
+  // a proof created in the future is only tolerated within the clock skew
+  const early = { documentLoader: testLoader, clock: clockAt("2023-02-24T23:35:38Z") }
+  assert((await EcdsaJcs2019.verifyProof(securedCredential, early)).verified)
+  assert(!(await EcdsaJcs2019.verifyProof(securedCredential, { ...early, clockSkew: 0 })).verified)
+
+  // a key revoked before the proof was created is rejected, while one revoked afterwards is not
+  const did = "did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP"
+  const revokedLoader = (revoked: string) => (url: string) => {
+    if (url !== did) {
+      return testLoader(url)
+    }
+    const cid = structuredClone(CID_DOCUMENT_1.default) as CIDDocument
+    cid.verificationMethod![0].revoked = revoked
+    return Promise.resolve({ documentUrl: url, document: cid })
+  }
+  const clock = clockAt("2023-06-01T00:00:00Z")
+  const revokedBefore = { documentLoader: revokedLoader("2023-01-01T00:00:00Z"), clock }
+  const revokedResult = await EcdsaJcs2019.verifyProof(securedCredential, revokedBefore)
+  assertEquals((revokedResult.errors![0] as ProcessingError).code, ProcessingErrorCode.INVALID_VERIFICATION_METHOD)
+
+  const revokedAfter = { documentLoader: revokedLoader("2023-03-01T00:00:00Z"), clock }
+  assert((await EcdsaJcs2019.verifyProof(securedCredential, revokedAfter)).verified)
+
+  // with `strictRevocation`, a key revoked by now is rejected, whenever the proof claims to be created
+  const strictResult = await EcdsaJcs2019.verifyProof(securedCredential, { ...revokedAfter, strictRevocation: true })
+  assertEquals((strictResult.errors![0] as ProcessingError).code, ProcessingErrorCode.INVALID_VERIFICATION_METHOD)
+  const revokedLater = { documentLoader: revokedLoader("2024-01-01T00:00:00Z"), clock, strictRevocation: true }
+  assert((await EcdsaJcs2019.verifyProof(securedCredential, revokedLater)).verified)
+
+  // an unparseable `created` value is malformed, and the key is then checked against the current time
+  const malformed = structuredClone(securedCredential)
+  ;(malformed.proof as Proof).created = "yesterday"
+  const malformedResult = await EcdsaJcs2019.verifyProof(malformed, revokedAfter)
+  const checks = malformedResult.results[0].checks
+  const validityCheck = checks.find(({ check }) => check === "validity")!
+  assertEquals((validityCheck.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+  const methodCheck = checks.find(({ check }) => check === "verificationMethod")!
+  assertEquals((methodCheck.errors![0] as ProcessingError).code, ProcessingErrorCode.INVALID_VERIFICATION_METHOD)
+})
+
+Deno.test("ECDSA-JCS-2019 verification checks", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader: testLoader })
+  const securedCredential = addProof(unsecuredCredential, proof)
+
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assertEquals(result.results[0].checks.map((check) => check.check), [
+    "expectation",
+    "validity",
+    "proofValue",
+    "context",
+    "verificationMethod",
+    "transformation",
+    "signature",
+  ])
+  assert(result.results[0].checks.every((check) => check.verified))
+
+  // a tampered document only fails the signature check
+  const tampered = structuredClone(securedCredential)
+  tampered.name = "Tampered Credential"
+  const tamperedResult = await EcdsaJcs2019.verifyProof(tampered, { documentLoader: testLoader })
+  assert(!tamperedResult.verified)
+  assertEquals(
+    tamperedResult.results[0].checks.filter((check) => !check.verified).map((check) => check.check),
+    ["signature"],
+  )
+  assertEquals((tamperedResult.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+
+  // a proof value that is not base58-btc encoded is malformed, and skips the cryptographic checks
+  const malformed = structuredClone(securedCredential)
+  malformed.proof.proofValue = "u0OOO"
+  const malformedResult = await EcdsaJcs2019.verifyProof(malformed, { documentLoader: testLoader })
+  assertEquals(malformedResult.results[0].checks.map((check) => check.check), [
+    "expectation",
+    "validity",
+    "proofValue",
+    "context",
+  ])
+  assertEquals((malformedResult.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+})
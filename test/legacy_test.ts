@@ -0,0 +1,112 @@
+import { assert, assertEquals, assertRejects } from "@std/assert"
+import {
+  type Credential,
+  type ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+  type VerificationMethod,
+} from "@herculas/vc-data-integrity"
+
+import { Curve } from "../src/constant/curve.ts"
+import { ECKeypair } from "../src/key/keypair.ts"
+import { EcdsaSecp256r1Signature2019 } from "../src/suite/legacy.ts"
+import { addProof } from "../src/suite/set.ts"
+import { verify } from "../src/suite/registry.ts"
+import { testLoader } from "./mock/loader.ts"
+
+import * as LEGACY_CRED_1 from "./mock/legacy-credential-1.json" with { type: "json" }
+import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
+import * as PROOF_OPTIONS_12 from "./mock/proof-options-12.json" with { type: "json" }
+
+Deno.test("EcdsaSecp256r1Signature2019 proof creation and verification", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_12.default) as Proof
+
+  const proof = await EcdsaSecp256r1Signature2019.createProof(unsecuredCredential, {
+    proof: proofOptions,
+    documentLoader: testLoader,
+    deterministic: true,
+  })
+
+  // a detached JWS with the `{"alg":"ES256","b64":false,"crit":["b64"]}` header
+  const [header, payload] = proof.jws.split(".")
+  assertEquals(header, "eyJhbGciOiJFUzI1NiIsImI2NCI6ZmFsc2UsImNyaXQiOlsiYjY0Il19")
+  assertEquals(payload, "")
+  assertEquals(proof.proofValue, undefined)
+
+  const securedCredential = addProof(unsecuredCredential, proof)
+  const result = await EcdsaSecp256r1Signature2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(result.verified)
+  assertEquals(result.verifiedDocument, unsecuredCredential)
+
+  // the same credential is verified without knowing its suite in advance
+  assert((await verify(securedCredential, { documentLoader: testLoader })).verified)
+
+  // a tampered document fails the signature check
+  const tampered = structuredClone(securedCredential)
+  tampered.name = "Tampered Credential"
+  const tamperedResult = await EcdsaSecp256r1Signature2019.verifyProof(tampered, { documentLoader: testLoader })
+  assert(!tamperedResult.verified)
+  assertEquals((tamperedResult.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+})
+
+Deno.test("EcdsaSecp256r1Signature2019 verification of a credential secured by jsonld-signatures", async () => {
+  // secured with the `LinkedDataSignature` suite of jsonld-signatures 11.6.0 on Node.js, whose hash data is signed as a
+  // detached ES256 JWS by `node:crypto`, under the key of `cid-1.json`
+  const securedCredential = structuredClone(LEGACY_CRED_1.default) as Credential
+  const result = await EcdsaSecp256r1Signature2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(result.verified)
+
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  assertEquals(result.verifiedDocument, unsecuredCredential)
+
+  const tampered = structuredClone(securedCredential)
+  tampered.proof.created = "2021-06-18T21:19:11Z"
+  assert(!(await EcdsaSecp256r1Signature2019.verifyProof(tampered, { documentLoader: testLoader })).verified)
+})
+
+Deno.test("EcdsaSecp256r1Signature2019 malformed proofs and keys", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_12.default) as Proof
+  const proof = await EcdsaSecp256r1Signature2019.createProof(unsecuredCredential, {
+    proof: proofOptions,
+    documentLoader: testLoader,
+  })
+
+  // a proof without a JWS is malformed
+  const missing = addProof(unsecuredCredential, { ...proof, jws: undefined })
+  const missingResult = await EcdsaSecp256r1Signature2019.verifyProof(missing, { documentLoader: testLoader })
+  assertEquals((missingResult.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+
+  // a JWS with an attached payload is malformed
+  const [header, , signature] = proof.jws.split(".")
+  const attached = addProof(unsecuredCredential, { ...proof, jws: `${header}.e30.${signature}` })
+  const attachedResult = await EcdsaSecp256r1Signature2019.verifyProof(attached, { documentLoader: testLoader })
+  assertEquals((attachedResult.errors![0] as ProcessingError).code, ProcessingErrorCode.MALFORMED_PROOF_ERROR)
+
+  // a P-384 verification method is rejected
+  const p384Options = {
+    ...proofOptions,
+    verificationMethod:
+      "did:key:z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ#z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ",
+  }
+  await assertRejects(() =>
+    EcdsaSecp256r1Signature2019.createProof(unsecuredCredential, { proof: p384Options, documentLoader: testLoader })
+  )
+})
+
+Deno.test("EcdsaSecp256r1VerificationKey2019 verification method import", async () => {
+  const keypair = new ECKeypair(Curve.P256)
+  keypair.controller = "did:example:1145141919810"
+  await keypair.initialize()
+
+  const jwkMethod = await keypair.export({ type: "JsonWebKey", flag: "public" })
+  const multibaseMethod = await keypair.export({ type: "Multikey", flag: "public" })
+
+  for (const method of [jwkMethod, multibaseMethod]) {
+    const legacyMethod = { ...method, type: "EcdsaSecp256r1VerificationKey2019" } as VerificationMethod
+    const imported = await ECKeypair.import(legacyMethod)
+    assertEquals(imported.curve, Curve.P256)
+    assert(imported.publicKey)
+  }
+})
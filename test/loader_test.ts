@@ -0,0 +1,86 @@
+import { assert, assertEquals, assertRejects } from "@std/assert"
+import { format, type LoadDocumentCallback } from "@herculas/vc-data-integrity"
+
+import { cachingLoader } from "../src/loader/cache.ts"
+import { contextLoader } from "../src/loader/context.ts"
+
+Deno.test("Bundled contexts served without network access", async () => {
+  const offline = contextLoader(() => Promise.reject(new Error("The network is not available.")))
+
+  const urls = [
+    "https://www.w3.org/ns/credentials/v2",
+    "https://w3id.org/security/data-integrity/v2",
+    "https://w3id.org/security/multikey/v1",
+    "https://w3id.org/security/suites/jws-2020/v1",
+    "https://www.w3.org/ns/cid/v1",
+  ]
+  for (const url of urls) {
+    const { documentUrl, document } = await offline(url)
+    assertEquals(documentUrl, url)
+    assert(document["@context"])
+  }
+
+  // a bundled context could not be altered through a loaded copy
+  const loaded = await offline(urls[0])
+  delete loaded.document["@context"]
+  assert((await offline(urls[0])).document["@context"])
+
+  await assertRejects(() => offline("https://example.org/context/v1"))
+})
+
+Deno.test("Bundled contexts pinned to the published documents", async () => {
+  const digests = {
+    "cid-v1.json": "1003c68eade419cb1367de2bbc2c53c62da2cf53e6c3ac215fde904a53b41460",
+    "credentials-v2.json": "8a9f494a89ecc51db093e90e84713e07e84d6d9204364a9b3c7868b21751236f",
+    "data-integrity-v2.json": "0f77743daf5b4e8fc067fc5ba5b21044283053aa717fc6b0219843bed3b00363",
+    "jws-2020-v1.json": "00ee65bb7307f9a01c3170b823083b0d4de68223520834b2c5eb7a09bae5dea6",
+    "multikey-v1.json": "c5f3806f8286920573221938917988a18a4cc5a09e968d29649613c7a1c2b1f6",
+  }
+  for (const [file, digest] of Object.entries(digests)) {
+    const content = await Deno.readFile(new URL(`../src/loader/context/${file}`, import.meta.url))
+    assertEquals(format.bytesToHex(new Uint8Array(await crypto.subtle.digest("SHA-256", content))), digest, file)
+  }
+})
+
+Deno.test("Caching loader with LRU eviction and TTL", async () => {
+  const loads: Array<string> = []
+  const counting: LoadDocumentCallback = (url) => {
+    loads.push(url)
+    return Promise.resolve({ documentUrl: url, document: { id: url } })
+  }
+
+  let now = new Date("2025-01-01T00:00:00Z")
+  const cached = cachingLoader(counting, { maxSize: 2, ttl: 1000, clock: () => now })
+
+  await cached("urn:a")
+  await cached("urn:b")
+  assertEquals((await cached("urn:a")).document, { id: "urn:a" })
+  assertEquals(loads, ["urn:a", "urn:b"])
+
+  // `urn:b` is the least recently used, and is evicted by `urn:c`
+  await cached("urn:c")
+  await cached("urn:a")
+  await cached("urn:b")
+  assertEquals(loads, ["urn:a", "urn:b", "urn:c", "urn:b"])
+
+  // an expired document is loaded again
+  now = new Date(now.getTime() + 1000)
+  await cached("urn:b")
+  assertEquals(loads, ["urn:a", "urn:b", "urn:c", "urn:b", "urn:b"])
+})
+
+Deno.test("Caching loader does not cache failures", async () => {
+  let attempts = 0
+  const flaky: LoadDocumentCallback = (url) => {
+    attempts++
+    return attempts === 1
+      ? Promise.reject(new Error("The host is unreachable."))
+      : Promise.resolve({ documentUrl: url, document: { id: url } })
+  }
+
+  const cached = cachingLoader(flaky)
+  await assertRejects(() => cached("urn:a"))
+  assertEquals((await cached("urn:a")).document, { id: "urn:a" })
+  await cached("urn:a")
+  assertEquals(attempts, 2)
+})
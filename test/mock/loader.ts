@@ -1,14 +1,25 @@
 import { type JsonLdDocument, loader } from "@herculas/vc-data-integrity"
 
+import { contextLoader } from "../../src/loader/context.ts"
+
 import * as CID_FILE_1 from "./cid-1.json" with { type: "json" }
 import * as CID_FILE_2 from "./cid-2.json" with { type: "json" }
+import * as CID_FILE_3 from "./cid-3.json" with { type: "json" }
+import * as CID_FILE_4 from "./cid-4.json" with { type: "json" }
 import * as CITIZENSHIP from "./context-citizenship.json" with { type: "json" }
+import * as EXAMPLES from "./context-examples.json" with { type: "json" }
 
-export const testLoader = loader.extend((url) => {
+export const testLoader = contextLoader(loader.extend((url) => {
   const document = new Map<string, JsonLdDocument>([
     ["did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP", CID_FILE_1.default],
     ["did:key:z82LkuBieyGShVBhvtE2zoiD6Kma4tJGFtkAhxR5pfkp5QPw4LutoYWhvQCnGjdVn14kujQ", CID_FILE_2.default],
+    [
+      "did:key:z2J9gcGKYLWcXxg3ksWyirM9BVDXqtScLgVb28pAQe4UQGD7Q8wB3aZafCPMTrmseQbap9h5ye9Ffaz7eNTYBWQ1ktiupzBf",
+      CID_FILE_3.default,
+    ],
+    ["did:key:zQ3shUD1Fz6qvh8zeo5Ewo5HWkXRaAjSxJu1Z2fyU8M2iRLTn", CID_FILE_4.default],
     ["https://w3id.org/citizenship/v4rc1", CITIZENSHIP.default],
+    ["https://www.w3.org/ns/credentials/examples/v2", EXAMPLES.default],
   ])
 
   if (document.has(url)) {
@@ -20,4 +31,4 @@ export const testLoader = loader.extend((url) => {
   throw new Error(
     `Attempted to remote load context : '${url}', please cache instead`,
   )
-})
+}))
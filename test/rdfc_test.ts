@@ -1,15 +1,27 @@
 import { assert, assertEquals } from "@std/assert"
-import { type Credential, format, type Proof } from "@herculas/vc-data-integrity"
+import {
+  type CIDDocument,
+  type Credential,
+  format,
+  type ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+} from "@herculas/vc-data-integrity"
 
 import { configRdfc, hashRdfcJcs, serializeRdfcJcs, transformRdfc, verifyRdfcJcs } from "../src/suite/core.ts"
 import { Curve } from "../src/constant/curve.ts"
 import { EcdsaRdfc2019 } from "../src/suite/rdfc.ts"
+import { addProof } from "../src/suite/set.ts"
+import { signPresentation, verifyPresentation } from "../src/suite/presentation.ts"
 import { testLoader } from "./mock/loader.ts"
 
+import * as CID_DOCUMENT_1 from "./mock/cid-1.json" with { type: "json" }
 import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
 import * as UNSECURED_CRED_2 from "./mock/unsecured-credential-2.json" with { type: "json" }
 import * as PROOF_OPTIONS_1 from "./mock/proof-options-1.json" with { type: "json" }
 import * as PROOF_OPTIONS_2 from "./mock/proof-options-2.json" with { type: "json" }
+import * as PROOF_OPTIONS_7 from "./mock/proof-options-7.json" with { type: "json" }
+import * as PROOF_OPTIONS_11 from "./mock/proof-options-11.json" with { type: "json" }
 
 Deno.test("ECDSA-RDFC-2019 document and proof hashing", async () => {
   const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
@@ -43,6 +55,21 @@ Deno.test("ECDSA-RDFC-2019 proof creation and verification", async () => {
   assert(result)
 })
 
+Deno.test("ECDSA-RDFC-2019 deterministic proof creation and verification", async () => {
+  const proofOptions = structuredClone(PROOF_OPTIONS_1.default) as Proof
+
+  const documentHash = "517744132ae165a5349155bef0bb0cf2258fff99dfe1dbd914b938d775a36017"
+  const proofHash = "3a8a522f689025727fb9d1f0fa99a618da023e8494ac74f51015d009d35abc2e"
+  const hashData = format.hexToBytes(proofHash + documentHash)
+
+  const curve = Curve.P256
+  const options = { curve, proof: proofOptions, documentLoader: testLoader, deterministic: true }
+  const proofBytes1 = await serializeRdfcJcs(hashData, options)
+  const proofBytes2 = await serializeRdfcJcs(hashData, options)
+  assertEquals(proofBytes1, proofBytes2)
+  assert(await verifyRdfcJcs(hashData, proofBytes1, options))
+})
+
 Deno.test("ECDSA-RDFC-2019 proof creation and verification encapsulated (P-256)", async () => {
   const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
   const proofOptions = structuredClone(PROOF_OPTIONS_1.default) as Proof
@@ -110,3 +137,157 @@ Deno.test("ECDSA-RDFC-2019 proof creation and verification encapsulated 2 (P-384
 
   assert(result.verified)
 })
+
+Deno.test("ECDSA-RDFC-2019 proof creation and verification encapsulated (P-521)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_7.default) as Proof
+
+  const curve = Curve.P521
+  const proveOptions = { curve, proof: proofOptions, documentLoader: testLoader }
+  const proof = await EcdsaRdfc2019.createProof(unsecuredCredential, proveOptions)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const verifyOptions = { curve, documentLoader: testLoader }
+  const result = await EcdsaRdfc2019.verifyProof(securedCredential, verifyOptions)
+
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-RDFC-2019 proof creation and verification encapsulated (secp256k1)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_11.default) as Proof
+
+  const curve = Curve.SECP256K1
+  const proveOptions = { curve, proof: proofOptions, documentLoader: testLoader }
+  const proof = await EcdsaRdfc2019.createProof(unsecuredCredential, proveOptions)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const verifyOptions = { curve, documentLoader: testLoader }
+  const result = await EcdsaRdfc2019.verifyProof(securedCredential, verifyOptions)
+
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-RDFC-2019 proof creation and verification with inferred curve", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_2.default) as Proof
+
+  const proveOptions = { proof: proofOptions, documentLoader: testLoader }
+  const proof = await EcdsaRdfc2019.createProof(unsecuredCredential, proveOptions)
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const verifyOptions = { documentLoader: testLoader }
+  const result = await EcdsaRdfc2019.verifyProof(securedCredential, verifyOptions)
+
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-RDFC-2019 proof set and proof chain", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const firstOptions = { ...structuredClone(PROOF_OPTIONS_1.default), id: "urn:uuid:first" } as Proof
+  const chainedOptions = {
+    ...structuredClone(PROOF_OPTIONS_2.default),
+    id: "urn:uuid:chained",
+    previousProof: "urn:uuid:first",
+  } as Proof
+
+  const first = await EcdsaRdfc2019.createProof(unsecuredCredential, {
+    proof: firstOptions,
+    documentLoader: testLoader,
+  })
+  let securedCredential = addProof(unsecuredCredential, first)
+  const chained = await EcdsaRdfc2019.createProof(securedCredential, {
+    proof: chainedOptions,
+    documentLoader: testLoader,
+  })
+  securedCredential = addProof(securedCredential, chained)
+
+  const result = await EcdsaRdfc2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(result.verified)
+  assertEquals(result.results.map((result) => result.verified), [true, true])
+
+  const brokenCredential = structuredClone(securedCredential)
+  brokenCredential.proof = [chained]
+  const brokenResult = await EcdsaRdfc2019.verifyProof(brokenCredential, { documentLoader: testLoader })
+  assert(!brokenResult.verified)
+})
+
+Deno.test("ECDSA-RDFC-2019 presentation with challenge and domain", async () => {
+  const credential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  credential.proof = await EcdsaRdfc2019.createProof(credential, {
+    proof: structuredClone(PROOF_OPTIONS_2.default) as Proof,
+    documentLoader: testLoader,
+  })
+  const presentation = {
+    "@context": credential["@context"],
+    type: ["VerifiablePresentation"],
+    verifiableCredential: [credential],
+  }
+
+  const challenge = "1f44d55f-f161-4938-a659-f8026467f126"
+  const domain = "https://verifier.example"
+  const securedPresentation = await signPresentation(EcdsaRdfc2019, presentation, {
+    proof: structuredClone(PROOF_OPTIONS_1.default) as Proof,
+    challenge,
+    domain,
+    documentLoader: testLoader,
+  })
+
+  const result = await verifyPresentation(EcdsaRdfc2019, securedPresentation, {
+    challenge,
+    domain,
+    documentLoader: testLoader,
+  })
+  assert(result.verified)
+
+  const replayed = await verifyPresentation(EcdsaRdfc2019, securedPresentation, {
+    challenge: "another challenge",
+    documentLoader: testLoader,
+  })
+  assert(!replayed.verified)
+})
+
+Deno.test("ECDSA-RDFC-2019 proof expiry, future creation and key validity", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = { ...structuredClone(PROOF_OPTIONS_1.default), expires: "2024-02-24T23:36:38Z" } as Proof
+  const securedCredential = addProof(
+    unsecuredCredential,
+    await EcdsaRdfc2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader: testLoader }),
+  )
+
+  // the proof is created at 2023-02-24T23:36:38Z and expires a year later
+  const clockAt = (time: string) => () => new Date(time)
+  const clock = clockAt("2023-06-01T00:00:00Z")
+  assert((await EcdsaRdfc2019.verifyProof(securedCredential, { documentLoader: testLoader, clock })).verified)
+
+  const expired = await EcdsaRdfc2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assertEquals((expired.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+
+  const early = { documentLoader: testLoader, clock: clockAt("2023-02-24T23:35:38Z"), clockSkew: 0 }
+  assert(!(await EcdsaRdfc2019.verifyProof(securedCredential, early)).verified)
+
+  // a key revoked after the proof was created is only rejected with `strictRevocation`
+  const did = "did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP"
+  const revokedLoader = (revoked: string) => (url: string) => {
+    if (url !== did) {
+      return testLoader(url)
+    }
+    const cid = structuredClone(CID_DOCUMENT_1.default) as CIDDocument
+    cid.verificationMethod![0].revoked = revoked
+    return Promise.resolve({ documentUrl: url, document: cid })
+  }
+  const revokedBefore = { documentLoader: revokedLoader("2023-01-01T00:00:00Z"), clock }
+  const revokedResult = await EcdsaRdfc2019.verifyProof(securedCredential, revokedBefore)
+  assertEquals((revokedResult.errors![0] as ProcessingError).code, ProcessingErrorCode.INVALID_VERIFICATION_METHOD)
+
+  const revokedAfter = { documentLoader: revokedLoader("2023-03-01T00:00:00Z"), clock }
+  assert((await EcdsaRdfc2019.verifyProof(securedCredential, revokedAfter)).verified)
+  const strictResult = await EcdsaRdfc2019.verifyProof(securedCredential, { ...revokedAfter, strictRevocation: true })
+  assertEquals((strictResult.errors![0] as ProcessingError).code, ProcessingErrorCode.INVALID_VERIFICATION_METHOD)
+})
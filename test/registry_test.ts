@@ -0,0 +1,92 @@
+import { assert, assertEquals } from "@std/assert"
+import {
+  type Credential,
+  format,
+  multi,
+  type ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+} from "@herculas/vc-data-integrity"
+
+import { EcdsaJcs2019 } from "../src/suite/jcs.ts"
+import { EcdsaRdfc2019 } from "../src/suite/rdfc.ts"
+import { addProof } from "../src/suite/set.ts"
+import { verify } from "../src/suite/registry.ts"
+import { testLoader } from "./mock/loader.ts"
+
+import * as PREFIX_CONSTANT from "../src/constant/prefix.ts"
+import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
+import * as PROOF_OPTIONS_1 from "./mock/proof-options-1.json" with { type: "json" }
+import * as PROOF_OPTIONS_3 from "./mock/proof-options-3.json" with { type: "json" }
+
+Deno.test("Verification of a proof set mixing cryptosuites", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const rdfcOptions = structuredClone(PROOF_OPTIONS_1.default) as Proof
+  const jcsOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+
+  const rdfcProof = await EcdsaRdfc2019.createProof(unsecuredCredential, {
+    proof: rdfcOptions,
+    documentLoader: testLoader,
+  })
+  let securedCredential = addProof(unsecuredCredential, rdfcProof)
+  const jcsProof = await EcdsaJcs2019.createProof(securedCredential, { proof: jcsOptions, documentLoader: testLoader })
+  securedCredential = addProof(securedCredential, jcsProof)
+
+  const result = await verify(securedCredential, { documentLoader: testLoader })
+  assert(result.verified)
+  assertEquals(result.results.map(({ proof }) => proof.cryptosuite), ["ecdsa-rdfc-2019", "ecdsa-jcs-2019"])
+  assertEquals(result.verifiedDocument, unsecuredCredential)
+
+  // each cryptosuite verifies only its own proof in the set, and reports the other proof as not verified
+  const rdfcResult = await EcdsaRdfc2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(!rdfcResult.verified)
+  assertEquals(rdfcResult.results.map(({ verified }) => verified), [true, false])
+  assertEquals(rdfcResult.results[1].checks.map(({ check }) => check), ["cryptosuite"])
+  assertEquals((rdfcResult.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+  const jcsResult = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader: testLoader })
+  assert(!jcsResult.verified)
+  assertEquals(jcsResult.results.map(({ verified }) => verified), [false, true])
+  assertEquals(jcsResult.results[0].checks.map(({ check }) => check), ["cryptosuite"])
+
+  // a tampered document fails both proofs
+  const tampered = structuredClone(securedCredential)
+  tampered.name = "Tampered Credential"
+  const tamperedResult = await verify(tampered, { documentLoader: testLoader })
+  assertEquals(tamperedResult.results.map(({ verified }) => verified), [false, false])
+})
+
+Deno.test("Verification of unsupported cryptosuites and base proofs", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const jcsOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+  const jcsProof = await EcdsaJcs2019.createProof(unsecuredCredential, {
+    proof: jcsOptions,
+    documentLoader: testLoader,
+  })
+
+  // an unknown cryptosuite is reported, while the other proofs are still verified
+  const unknownProof = { ...jcsProof, cryptosuite: "eddsa-jcs-2022" }
+  const unknownResult = await verify(addProof(addProof(unsecuredCredential, jcsProof), unknownProof), {
+    documentLoader: testLoader,
+  })
+  assert(!unknownResult.verified)
+  assertEquals(unknownResult.results.map(({ verified }) => verified), [true, false])
+  assertEquals(unknownResult.results[1].checks.map(({ check }) => check), ["cryptosuite"])
+  assertEquals((unknownResult.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+
+  // a legacy proof type is routed by its type rather than its cryptosuite, and carries no JWS here
+  const legacyProof = { ...jcsProof, type: "EcdsaSecp256r1Signature2019" }
+  const legacyResult = await verify(addProof(unsecuredCredential, legacyProof), { documentLoader: testLoader })
+  assert(!legacyResult.verified)
+
+  // an `ecdsa-sd-2023` base proof is detected by its header, and is not verified
+  const baseHeader = format.hexToBytes(PREFIX_CONSTANT.CBOR_BASE)
+  const baseProof = {
+    ...jcsProof,
+    cryptosuite: "ecdsa-sd-2023",
+    proofValue: multi.base64urlnopad.encode(new Uint8Array([...baseHeader, 0x85])),
+  }
+  const baseResult = await verify(addProof(unsecuredCredential, baseProof), { documentLoader: testLoader })
+  assert(!baseResult.verified)
+  assertEquals(baseResult.results[0].checks.map(({ check }) => check), ["cryptosuite"])
+  assert((baseResult.errors![0] as ProcessingError).message.includes("base proof"))
+})
@@ -1,14 +1,23 @@
-import { assert } from "@std/assert"
-import { type Credential, type Proof, selective } from "@herculas/vc-data-integrity"
+import { assert, assertEquals } from "@std/assert"
+import {
+  type CIDDocument,
+  type Credential,
+  type ProcessingError,
+  ProcessingErrorCode,
+  type Proof,
+  selective,
+} from "@herculas/vc-data-integrity"
 
 import { Curve } from "../src/constant/curve.ts"
 import { EcdsaSd2023 } from "../src/suite/sd.ts"
 import { testLoader } from "./mock/loader.ts"
 
+import * as CID_DOCUMENT_1 from "./mock/cid-1.json" with { type: "json" }
 import * as UNSECURED_CRED_2 from "./mock/unsecured-credential-2.json" with { type: "json" }
 import * as UNSECURED_CRED_3 from "./mock/unsecured-credential-3.json" with { type: "json" }
 import * as PROOF_OPTIONS_5 from "./mock/proof-options-5.json" with { type: "json" }
 import * as PROOF_OPTIONS_6 from "./mock/proof-options-6.json" with { type: "json" }
+import * as PROOF_OPTIONS_9 from "./mock/proof-options-9.json" with { type: "json" }
 
 Deno.test("ECDSA-SD-2023: case 1 (P-256)", async () => {
   const unsecuredCredential = structuredClone(UNSECURED_CRED_2.default) as Credential
@@ -173,3 +182,176 @@ Deno.test("ECDSA-SD-2023: case 4 (P-384)", async () => {
   const result = await EcdsaSd2023.verifyProof(revealedCredential, verifyOptions)
   assert(result.verified)
 })
+
+Deno.test("ECDSA-SD-2023: case 5 (P-521)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_2.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_9.default) as Proof
+
+  const mandatoryPointers = ["/issuer"]
+  const curve = Curve.P521
+
+  const createOptions = {
+    curve,
+    proof: proofOptions,
+    mandatoryPointers,
+    documentLoader: testLoader,
+  }
+
+  const proof = await EcdsaSd2023.createProof(unsecuredCredential, createOptions)
+
+  const securedCredential = structuredClone(unsecuredCredential)
+  securedCredential.proof = proof
+
+  const selectivePointers = ["/validFrom", "/validUntil", "/credentialSubject/birthCountry"]
+  const deriveOptions = {
+    curve,
+    documentLoader: testLoader,
+    selectivePointers,
+  }
+
+  const derived = await EcdsaSd2023.deriveProof(securedCredential, deriveOptions)
+
+  const revealedPointers = mandatoryPointers.concat(selectivePointers)
+  const revealedCredential = selective.selectJsonLd(revealedPointers, securedCredential) as Credential
+  revealedCredential.proof = derived
+
+  const verifyOptions = {
+    curve,
+    documentLoader: testLoader,
+  }
+
+  const result = await EcdsaSd2023.verifyProof(revealedCredential, verifyOptions)
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-SD-2023: deterministic base proof (P-256)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_2.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_5.default) as Proof
+
+  const mandatoryPointers = ["/issuer"]
+  const curve = Curve.P256
+
+  const createOptions = {
+    curve,
+    proof: proofOptions,
+    mandatoryPointers,
+    documentLoader: testLoader,
+    deterministic: true,
+  }
+
+  const proof1 = await EcdsaSd2023.createProof(unsecuredCredential, createOptions)
+  const proof2 = await EcdsaSd2023.createProof(unsecuredCredential, createOptions)
+  assertEquals(proof1, proof2)
+
+  const securedCredential = structuredClone(unsecuredCredential)
+  securedCredential.proof = proof1
+
+  const selectivePointers = ["/validFrom", "/validUntil"]
+  const deriveOptions = {
+    curve,
+    documentLoader: testLoader,
+    selectivePointers,
+  }
+
+  const derived = await EcdsaSd2023.deriveProof(securedCredential, deriveOptions)
+
+  const revealedPointers = mandatoryPointers.concat(selectivePointers)
+  const revealedCredential = selective.selectJsonLd(revealedPointers, securedCredential) as Credential
+  revealedCredential.proof = derived
+
+  const verifyOptions = {
+    curve,
+    documentLoader: testLoader,
+  }
+
+  const result = await EcdsaSd2023.verifyProof(revealedCredential, verifyOptions)
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-SD-2023: verification checks of a tampered statement (P-256)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_2.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_5.default) as Proof
+
+  const mandatoryPointers = ["/issuer"]
+  const curve = Curve.P256
+  const proof = await EcdsaSd2023.createProof(unsecuredCredential, {
+    curve,
+    proof: proofOptions,
+    mandatoryPointers,
+    documentLoader: testLoader,
+  })
+
+  const securedCredential = structuredClone(unsecuredCredential)
+  securedCredential.proof = proof
+
+  const selectivePointers = ["/validFrom", "/validUntil"]
+  const derived = await EcdsaSd2023.deriveProof(securedCredential, {
+    curve,
+    documentLoader: testLoader,
+    selectivePointers,
+  })
+
+  const revealedCredential = selective.selectJsonLd(mandatoryPointers.concat(selectivePointers), securedCredential)
+  revealedCredential!.proof = derived
+  revealedCredential!.validUntil = "2099-01-01T00:00:00Z"
+
+  const result = await EcdsaSd2023.verifyProof(revealedCredential!, { curve, documentLoader: testLoader })
+  assert(!result.verified)
+  assertEquals(result.checks.find((check) => check.check === "baseSignature")?.verified, true)
+  assertEquals(
+    result.checks.filter((check) => check.check.startsWith("statementSignature")).map((check) => check.verified),
+    [true, false],
+  )
+})
+
+Deno.test("ECDSA-SD-2023: proof expiry, future creation and key validity (P-256)", async () => {
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_2.default) as Credential
+  const proofOptions = { ...structuredClone(PROOF_OPTIONS_5.default), expires: "2024-08-15T23:36:38Z" } as Proof
+
+  const mandatoryPointers = ["/issuer"]
+  const curve = Curve.P256
+  const securedCredential = structuredClone(unsecuredCredential)
+  securedCredential.proof = await EcdsaSd2023.createProof(unsecuredCredential, {
+    curve,
+    proof: proofOptions,
+    mandatoryPointers,
+    documentLoader: testLoader,
+  })
+
+  const selectivePointers = ["/validFrom", "/validUntil"]
+  const derived = await EcdsaSd2023.deriveProof(securedCredential, {
+    curve,
+    documentLoader: testLoader,
+    selectivePointers,
+  })
+  const revealedCredential = selective.selectJsonLd(mandatoryPointers.concat(selectivePointers), securedCredential)
+  revealedCredential!.proof = derived
+
+  // the proof is created at 2023-08-15T23:36:38Z and expires a year later
+  const clockAt = (time: string) => () => new Date(time)
+  const clock = clockAt("2024-01-01T00:00:00Z")
+  assert((await EcdsaSd2023.verifyProof(revealedCredential!, { curve, documentLoader: testLoader, clock })).verified)
+
+  const expired = await EcdsaSd2023.verifyProof(revealedCredential!, { curve, documentLoader: testLoader })
+  assertEquals((expired.errors![0] as ProcessingError).code, ProcessingErrorCode.PROOF_VERIFICATION_ERROR)
+
+  const early = { curve, documentLoader: testLoader, clock: clockAt("2023-08-15T23:35:38Z"), clockSkew: 0 }
+  assert(!(await EcdsaSd2023.verifyProof(revealedCredential!, early)).verified)
+
+  // a key revoked after the proof was created is only rejected with `strictRevocation`
+  const did = "did:key:zDnaepBuvsQ8cpsWrVKw8fbpGpvPeNSjVPTWoq6cRqaYzBKVP"
+  const revokedLoader = (revoked: string) => (url: string) => {
+    if (url !== did) {
+      return testLoader(url)
+    }
+    const cid = structuredClone(CID_DOCUMENT_1.default) as CIDDocument
+    cid.verificationMethod![0].revoked = revoked
+    return Promise.resolve({ documentUrl: url, document: cid })
+  }
+  const revokedBefore = { curve, documentLoader: revokedLoader("2023-01-01T00:00:00Z"), clock }
+  assert(!(await EcdsaSd2023.verifyProof(revealedCredential!, revokedBefore)).verified)
+
+  const revokedAfter = { curve, documentLoader: revokedLoader("2023-09-01T00:00:00Z"), clock }
+  assert((await EcdsaSd2023.verifyProof(revealedCredential!, revokedAfter)).verified)
+  assert(!(await EcdsaSd2023.verifyProof(revealedCredential!, { ...revokedAfter, strictRevocation: true })).verified)
+})
@@ -0,0 +1,75 @@
+import { assert, assertRejects } from "@std/assert"
+import { type Credential, document, type JsonLdDocument, loader, type Proof } from "@herculas/vc-data-integrity"
+
+import { Curve } from "../src/constant/curve.ts"
+import { ECKeypair } from "../src/key/keypair.ts"
+import { EcdsaJcs2019 } from "../src/suite/jcs.ts"
+import { LocalSigner } from "../src/key/signer.ts"
+import { testLoader } from "./mock/loader.ts"
+
+import * as UNSECURED_CRED_1 from "./mock/unsecured-credential-1.json" with { type: "json" }
+import * as PROOF_OPTIONS_3 from "./mock/proof-options-3.json" with { type: "json" }
+
+async function prepareSigner(curve: Curve) {
+  const keypair = new ECKeypair(curve)
+  keypair.controller = "did:example:1145141919810"
+  await keypair.initialize()
+
+  // only the public key is published, the private key never leaves the signer
+  const method = await keypair.export({ type: "Multikey", flag: "public" })
+  const cid = document.encapsulateVerificationMethod(method, undefined, new Set(["assertionMethod"]))
+  const publicLoader = loader.extend((url) => {
+    if (url === keypair.controller) {
+      return Promise.resolve({ documentUrl: url, document: cid as JsonLdDocument })
+    }
+    return testLoader(url)
+  })
+
+  return { signer: new LocalSigner(keypair), documentLoader: publicLoader }
+}
+
+Deno.test("Local signer: sign and verify", async () => {
+  const keypair = new ECKeypair(Curve.P384)
+  keypair.controller = "did:example:1145141919810"
+  await keypair.initialize()
+
+  const signer = new LocalSigner(keypair)
+  const data = crypto.getRandomValues(new Uint8Array(12))
+  const signature = await signer.sign(data)
+  const result = await crypto.subtle.verify(
+    { name: "ECDSA", hash: { name: "SHA-384" } },
+    keypair.publicKey!,
+    signature,
+    data,
+  )
+
+  assert(signer.algorithm === "ES384")
+  assert(result)
+})
+
+Deno.test("ECDSA-JCS-2019 proof creation with an external signer (P-256)", async () => {
+  const { signer, documentLoader } = await prepareSigner(Curve.P256)
+
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+  proofOptions.verificationMethod = signer.id
+
+  const proof = await EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader, signer })
+
+  const securedCredential = unsecuredCredential
+  securedCredential.proof = proof
+
+  const result = await EcdsaJcs2019.verifyProof(securedCredential, { documentLoader })
+  assert(result.verified)
+})
+
+Deno.test("ECDSA-JCS-2019 proof creation with a mismatched signer", async () => {
+  const { signer, documentLoader } = await prepareSigner(Curve.P256)
+
+  const unsecuredCredential = structuredClone(UNSECURED_CRED_1.default) as Credential
+  const proofOptions = structuredClone(PROOF_OPTIONS_3.default) as Proof
+
+  await assertRejects(() =>
+    EcdsaJcs2019.createProof(unsecuredCredential, { proof: proofOptions, documentLoader, signer })
+  )
+})